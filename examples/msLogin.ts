@@ -9,6 +9,8 @@ import {
   authenticate,
   loadConfigFromEnv,
   getStorageStatePath,
+  getStorageStateInfo,
+  clearStorageStates,
   getAuthBaseDir,
 } from "playwright-ms-auth";
 
@@ -60,8 +62,8 @@ export async function loginToMicrosoft(
  */
 export async function hasValidAuth(): Promise<boolean> {
   const config = loadConfigFromEnv();
-  const storagePath = getStorageStatePath(config.email);
-  return fs.existsSync(storagePath);
+  const state = await getStorageStateInfo(config.email, config);
+  return state?.valid ?? false;
 }
 
 /**
@@ -78,11 +80,10 @@ export async function getAuthFilePath(): Promise<string> {
  */
 export async function clearAuth(): Promise<void> {
   const config = loadConfigFromEnv();
-  const storagePath = getStorageStatePath(config.email);
+  const [cleared] = await clearStorageStates({ email: config.email });
 
-  if (fs.existsSync(storagePath)) {
-    fs.unlinkSync(storagePath);
-    console.log(`✅ Cleared: ${storagePath}`);
+  if (cleared) {
+    console.log(`✅ Cleared: ${cleared.storagePath}`);
   } else {
     console.log("ℹ️ No authentication to clear");
   }
@@ -0,0 +1,7 @@
+import { defineConfig } from "@playwright/test";
+
+export default defineConfig({
+  testDir: "./src",
+  testMatch: "**/*.spec.ts",
+  reporter: process.env.CI ? "list" : "line",
+});
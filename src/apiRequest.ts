@@ -0,0 +1,134 @@
+import { request } from "@playwright/test";
+import type { APIRequestContext } from "@playwright/test";
+import type { MsAuthConfig } from "./types";
+import type { MsalToken } from "./msalCache";
+import type { StorageState } from "./storageState";
+import { authenticate, loadStorageStateObject } from "./authenticate";
+import { getAccessToken } from "./msalCache";
+import { log } from "./utils";
+
+/** APIRequestContext methods that send a request */
+const REQUEST_METHODS = new Set([
+  "fetch",
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "head",
+]);
+
+/** Options for an authenticated API request context */
+export interface AuthenticatedRequestOptions {
+  /** Scopes the bearer token must cover, e.g. ["https://graph.microsoft.com/.default"] */
+  scopes: string[];
+
+  /** Base URL of the API */
+  baseURL?: string;
+
+  /**
+   * URL of the app the user signs in to; its MSAL cache provides the token
+   * (default: baseURL)
+   */
+  targetUrl?: string;
+
+  /** Application (client) ID the token must be issued to */
+  clientId?: string;
+
+  /** Tenant ID the token must be issued by */
+  tenantId?: string;
+
+  /** Minutes before token expiry at which it is refreshed (default: 5) */
+  refreshMargin?: number;
+
+  /** Additional options for `request.newContext()` */
+  contextOptions?: Parameters<typeof request.newContext>[0];
+}
+
+/**
+ * Create a Playwright APIRequestContext that sends the user's bearer token
+ * and session cookies with every request
+ *
+ * The token comes from the MSAL cache of the saved storage state; if none is
+ * cached or it is about to expire, the user is signed in again with
+ * `msalTokenScopes` set to the requested scopes.
+ */
+export async function createAuthenticatedRequestContext(
+  config: MsAuthConfig,
+  options: AuthenticatedRequestOptions
+): Promise<APIRequestContext> {
+  const targetUrl = options.targetUrl ?? options.baseURL;
+  if (!targetUrl) {
+    throw new Error(
+      "createAuthenticatedRequestContext needs a targetUrl or baseURL to sign in to"
+    );
+  }
+
+  const marginMs = (options.refreshMargin ?? 5) * 60 * 1000;
+  const isUsable = (token: MsalToken | undefined): token is MsalToken =>
+    !!token &&
+    (!token.expiresAt || token.expiresAt.getTime() - marginMs > Date.now());
+
+  const readState = (): Promise<StorageState> =>
+    loadStorageStateObject(config, targetUrl);
+
+  const findToken = (state: StorageState): MsalToken | undefined => {
+    try {
+      return getAccessToken(state, options);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const renewToken = async (): Promise<MsalToken> => {
+    const scopes = options.scopes.join(" ");
+    log(`[MsAuth] Renewing access token for '${config.email}' (${scopes})`);
+    await authenticate(
+      { ...config, msalTokenScopes: options.scopes },
+      targetUrl,
+      { force: true }
+    );
+    return getAccessToken(await readState(), options);
+  };
+
+  const state = await readState();
+  let token = findToken(state);
+  if (!isUsable(token)) {
+    token = await renewToken();
+  }
+
+  let renewal: Promise<MsalToken> | undefined;
+  const getBearerToken = async (): Promise<string> => {
+    if (!isUsable(token)) {
+      renewal ??= renewToken().finally(() => (renewal = undefined));
+      token = await renewal;
+    }
+    return token.token;
+  };
+
+  const context = await request.newContext({
+    ...options.contextOptions,
+    baseURL: options.baseURL,
+    storageState: { cookies: state.cookies, origins: state.origins },
+  });
+
+  return new Proxy(context, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== "string" || !REQUEST_METHODS.has(property)) {
+        return value;
+      }
+      return async (
+        urlOrRequest: unknown,
+        requestOptions: { headers?: Record<string, string> } = {}
+      ) =>
+        value.call(target, urlOrRequest, {
+          ...requestOptions,
+          headers: {
+            authorization: `Bearer ${await getBearerToken()}`,
+            ...requestOptions.headers,
+          },
+        });
+    },
+  });
+}
@@ -1,90 +1,314 @@
-import type { Page, Browser, BrowserContext } from "@playwright/test";
-import { expect, chromium } from "@playwright/test";
-import type { MsAuthConfig, CredentialResult } from "./types";
+import type { Page, BrowserContext } from "@playwright/test";
+import { rm, stat } from "node:fs/promises";
+import { expect } from "@playwright/test";
+import type { MsAuthConfig, CredentialResult, TotpOptions } from "./types";
 import { CredentialProviderFactory } from "./providers";
-import { addCertAuthRoute, waitForCertAuthResponse } from "./certAuth";
+import { getTotpSecret } from "./totp";
+import { runLoginFlow } from "./loginFlow";
+import {
+  getCertAuthClientCertificates,
+  getCertAuthOptions,
+  resolveCertificateMode,
+} from "./certAuth";
+import type { CertificateInfo } from "./certificate";
+import {
+  checkCertificate,
+  getCertificateCredential,
+  inspectCertificate,
+} from "./certificate";
+import { openBrowser } from "./browser";
+import { withFileLock } from "./lock";
+import { getLoginEndpoint } from "./config";
+import { probeStorageState } from "./sessionProbe";
+import {
+  getStorageStateExpiry,
+  readStorageStateFile,
+  writeStorageStateFile,
+} from "./storageState";
+import {
+  getCredentialFingerprint,
+  getManifestPath,
+  readStorageStateManifest,
+  writeStorageStateManifest,
+} from "./manifest";
+import { refreshStorageStateTokens } from "./tokenRefresh";
+import type { OriginSessionStorage, StorageState } from "./storageState";
+import { captureSessionStorage } from "./sessionStorage";
+import { getAccessToken } from "./msalCache";
 import {
   log,
-  getStorageStatePath,
+  resolveStorageStatePath,
+  getStorageStateApp,
   getAuthScreenshotPath,
   ensureDirExists,
   isStorageStateValid,
+  getPackageVersion,
 } from "./utils";
-import { createHash } from "node:crypto";
 
-const DEFAULT_LOGIN_ENDPOINT = "login.microsoftonline.com";
+/** Credentials resolved for a login attempt */
+interface LoginCredentials {
+  credential: CredentialResult;
+  totp?: { secret: string; options: TotpOptions };
+  /** Certificate is configured as a client certificate on the context */
+  clientCertificates?: boolean;
+}
+
+/** Logins in progress in this process, by storage state path */
+const inFlightLogins = new Map<
+  string,
+  { login: Promise<void>; force: boolean }
+>();
+
+/** Storage state encryption keys, by provider configuration */
+const encryptionKeys = new Map<string, Promise<string>>();
 
 /**
  * Perform Microsoft Entra authentication and save storage state
+ *
+ * Concurrent calls for the same user share one login, both within this
+ * process and across processes (through a lock file next to the state).
  */
 export async function authenticate(
   config: MsAuthConfig,
-  targetUrl: string
+  targetUrl: string,
+  options: {
+    /** Sign in again even if the saved state is still valid */
+    force?: boolean;
+  } = {}
 ): Promise<void> {
-  const storagePath = getStorageStatePath(config.email);
+  const storagePath = resolveStorageStatePath(config, targetUrl);
+  const force = options.force ?? false;
+
+  const pending = inFlightLogins.get(storagePath);
+  if (pending && (pending.force || !force)) {
+    log(
+      `[MsAuth] Authentication for '${config.email}' already in progress, waiting`
+    );
+    return pending.login;
+  }
+
+  // A forced login must not be answered with the state a running login reuses
+  // or refreshes, so it starts once that login has finished
+  const login: Promise<void> = (
+    pending?.login.catch(() => {}) ?? Promise.resolve()
+  )
+    .then(() => authenticateOnce(config, targetUrl, storagePath, force))
+    .finally(() => {
+      if (inFlightLogins.get(storagePath)?.login === login) {
+        inFlightLogins.delete(storagePath);
+      }
+    });
+  inFlightLogins.set(storagePath, { login, force });
+  return login;
+}
 
-  // Check if existing storage state is still valid
+/**
+ * Authenticate unless a valid storage state exists, holding the state's lock file
+ */
+async function authenticateOnce(
+  config: MsAuthConfig,
+  targetUrl: string,
+  storagePath: string,
+  force: boolean
+): Promise<void> {
+  // Modification time of a saved state that must not be reused
+  let staleStateTime: number | undefined;
+  let rejected = false;
+  if (!force && (await isStorageStateCurrent(config, storagePath))) {
+    if (await isSessionAlive(config, storagePath, targetUrl)) {
+      return;
+    }
+    staleStateTime = await getModifiedTime(storagePath);
+    rejected = true;
+  }
+
+  await withFileLock(
+    `${storagePath}.lock`,
+    async () => {
+      // Another process may have finished the login while we were waiting;
+      // a forced login signs in anyway, as that process may only have
+      // refreshed tokens
+      if (
+        !force &&
+        (await isStorageStateCurrent(config, storagePath)) &&
+        (await getModifiedTime(storagePath)) !== staleStateTime
+      ) {
+        return;
+      }
+      // A forced login always signs in with the browser, as the caller may
+      // need new cookies rather than renewed tokens
+      if (rejected) {
+        await invalidateStorageState(config, storagePath);
+      } else if (!force && (await refreshSavedState(config, storagePath))) {
+        return;
+      }
+      await performLogin(config, targetUrl, storagePath);
+    },
+    { timeout: config.lockTimeout, staleTimeout: config.staleLockTimeout }
+  );
+}
+
+/**
+ * Check whether the saved storage state can be reused
+ */
+async function isStorageStateCurrent(
+  config: MsAuthConfig,
+  storagePath: string
+): Promise<boolean> {
   const isValid = await isStorageStateValid(
     storagePath,
-    config.storageStateExpiration
+    config.storageStateExpiration,
+    {
+      safetyMarginMinutes: config.expirySafetyMargin,
+      encryptionKey: await getStorageStateKey(config),
+    }
   );
   if (isValid) {
     log(
       `[MsAuth] Storage state for '${config.email}' is still valid, skipping authentication`
     );
-    return;
   }
+  return isValid;
+}
 
-  log(`[MsAuth] Starting authentication for '${config.email}'`);
-  log(`[MsAuth] Credential provider: ${config.credentialProvider}`);
-  log(`[MsAuth] Credential type: ${config.credentialType}`);
-  if (config.headless === false) {
-    log(`[MsAuth] Running in headful mode (visible browser)`);
+/**
+ * Probe the saved session when `verifySession` is enabled
+ */
+async function isSessionAlive(
+  config: MsAuthConfig,
+  storagePath: string,
+  targetUrl?: string
+): Promise<boolean> {
+  if (!config.verifySession) {
+    return true;
   }
+  const storageState = await readSavedStorageState(config, storagePath);
+  return probeStorageState(config, storageState, targetUrl);
+}
 
-  // Create credential provider and retrieve credential
-  const provider = CredentialProviderFactory.createProvider(
-    config.credentialProvider,
-    config.providerConfig
-  );
+/**
+ * Renew a saved storage state with its MSAL refresh tokens, without a browser
+ * @returns True when the state was refreshed; false to fall back to signing in
+ */
+async function refreshSavedState(
+  config: MsAuthConfig,
+  storagePath: string
+): Promise<boolean> {
+  if (config.tokenRefresh === false) {
+    return false;
+  }
 
-  const credential = await provider.getCredential();
+  const encryptionKey = await getStorageStateKey(config);
+  let state: StorageState;
+  try {
+    state = await readStorageStateFile(storagePath, encryptionKey);
+  } catch {
+    return false;
+  }
 
-  // Validate credential type matches configuration
-  if (credential.type !== config.credentialType) {
+  try {
+    const refreshed = await refreshStorageStateTokens(config, state);
+    if (config.msalTokenScopes?.length) {
+      // Throws when the refreshed cache lacks the required token
+      getAccessToken(refreshed, { scopes: config.msalTokenScopes });
+    }
+
+    await writeStorageStateFile(storagePath, refreshed, encryptionKey);
+    const manifest = await readStorageStateManifest(storagePath);
+    if (manifest) {
+      await writeStorageStateManifest(storagePath, {
+        ...manifest,
+        expiresAt: getStorageStateExpiry(refreshed).expiresAt?.toISOString(),
+        refreshedAt: new Date().toISOString(),
+      });
+    }
+    log(`[MsAuth] Refreshed storage state tokens for '${config.email}'`);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
     log(
-      `[MsAuth] ##[warning]Credential type mismatch: expected '${config.credentialType}' but got '${credential.type}'`
+      `[MsAuth] ##[warning]Token refresh failed, signing in with the browser: ${message}`
     );
+    return false;
   }
+}
 
-  // Launch browser and perform authentication
-  const headlessMode = config.headless !== false;
-  console.log(
-    `[CONSOLE] About to launch browser with headless=${headlessMode} (config.headless=${config.headless})`
-  );
-  log(
-    `[MsAuth] About to launch browser with headless=${headlessMode} (config.headless=${config.headless})`
-  );
+/**
+ * Read a saved storage state for use in a browser context
+ * Encrypted states are decrypted in memory; plaintext states are passed by path.
+ */
+async function readSavedStorageState(
+  config: MsAuthConfig,
+  storagePath: string
+): Promise<string | StorageState> {
+  const key = await getStorageStateKey(config);
+  return key ? readStorageStateFile(storagePath, key) : storagePath;
+}
 
-  const browser = await chromium.launch({
-    headless: headlessMode,
-    channel: "msedge", // Use Microsoft Edge for better Windows compatibility
-    args: ["--no-sandbox", "--disable-setuid-sandbox"],
-  });
+/**
+ * Delete a storage state whose session was rejected
+ */
+async function invalidateStorageState(
+  config: MsAuthConfig,
+  storagePath: string
+): Promise<void> {
+  log(`[MsAuth] Invalidating rejected storage state for '${config.email}'`);
+  await rm(storagePath, { force: true });
+  await rm(getManifestPath(storagePath), { force: true });
+}
 
-  console.log(
-    `[CONSOLE] Browser launched successfully with headless=${headlessMode}`
-  );
-  log(`[MsAuth] Browser launched successfully`);
+async function getModifiedTime(filePath: string): Promise<number | undefined> {
+  return stat(filePath)
+    .then((stats) => stats.mtimeMs)
+    .catch(() => undefined);
+}
+
+/**
+ * Launch a browser, sign in and save the storage state
+ */
+async function performLogin(
+  config: MsAuthConfig,
+  targetUrl: string,
+  storagePath: string
+): Promise<void> {
+  log(`[MsAuth] Starting authentication for '${config.email}'`);
+  if (config.headless === false) {
+    log(`[MsAuth] Running in headful mode (visible browser)`);
+  }
+
+  const credentials = await getLoginCredentials(config);
+
+  // Launch (or connect to) the browser and perform authentication
+  const browser = await openBrowser(config);
+  log(`[MsAuth] Browser ready`);
+
+  const clientCertificates = getClientCertificates(config, credentials);
 
   try {
-    await performAuthenticationFlow(
-      browser,
-      config,
-      targetUrl,
-      credential,
-      storagePath
-    );
+    const context = await browser.newContext({
+      ...config.contextOptions,
+      ...(clientCertificates && {
+        clientCertificates: [
+          ...(config.contextOptions?.clientCertificates ?? []),
+          ...clientCertificates,
+        ],
+      }),
+      storageState: undefined, // Start with fresh state
+    });
+
+    try {
+      const page = await context.newPage();
+      await performAuthenticationFlow(
+        page,
+        config,
+        targetUrl,
+        { ...credentials, clientCertificates: !!clientCertificates },
+        storagePath,
+        true
+      );
+    } finally {
+      await context.close();
+    }
     log(
       `[MsAuth] ##[section]Authentication completed successfully for '${config.email}'`
     );
@@ -94,109 +318,244 @@ export async function authenticate(
 }
 
 /**
- * Perform the actual authentication flow in the browser
+ * Get the client certificates for the sign-in context, when certificate
+ * auth uses the context's native client certificate support
  */
-async function performAuthenticationFlow(
-  browser: Browser,
+function getClientCertificates(
   config: MsAuthConfig,
-  targetUrl: string,
-  credential: CredentialResult,
-  storagePath: string
-): Promise<void> {
-  const context = await browser.newContext({
-    storageState: undefined, // Start with fresh state
-  });
+  { credential }: LoginCredentials
+) {
+  if (credential.type !== "certificate") {
+    return undefined;
+  }
 
-  const page = await context.newPage();
+  const mode = resolveCertificateMode(config.certificateMode);
+  log(`[MsAuth] Certificate authentication mode: ${mode}`);
+  if (mode !== "client-certificates") {
+    return undefined;
+  }
+  return getCertAuthClientCertificates(
+    getCertAuthOptions(
+      getCertificateCredential(credential),
+      getLoginEndpoint(config)
+    )
+  );
+}
 
+/**
+ * Authenticate inside a caller-supplied browser context
+ * Opens a new page in the context, signs in and saves the storage state.
+ * The context stays open and keeps the session.
+ */
+export async function authenticateContext(
+  context: BrowserContext,
+  config: MsAuthConfig,
+  targetUrl: string
+): Promise<void> {
+  const page = await context.newPage();
   try {
-    // Navigate to target URL which will redirect to login
-    log(`[MsAuth] Navigating to ${targetUrl}`);
-    await page.goto(targetUrl, { waitUntil: "domcontentloaded" });
-
-    // Verify we're on the Entra login page
-    const loginEndpoint = config.loginEndpoint || DEFAULT_LOGIN_ENDPOINT;
-    const loginUrlPattern = new RegExp(
-      `https:\\/\\/${loginEndpoint.replace(/\./g, "\\.")}\\\/`
-    );
+    await authenticatePage(page, config, targetUrl);
+  } finally {
+    await page.close();
+  }
+}
 
-    await expect(page, "Expected Entra sign-in page").toHaveURL(
-      loginUrlPattern,
-      { timeout: 30000 }
-    );
+/**
+ * Authenticate on a caller-supplied page, e.g. mid-test
+ * The page is left on the target app once signed in.
+ */
+export async function authenticatePage(
+  page: Page,
+  config: MsAuthConfig,
+  targetUrl: string
+): Promise<void> {
+  log(
+    `[MsAuth] Starting authentication for '${config.email}' on existing page`
+  );
 
-    const actualEndpoint = new URL(page.url()).hostname;
-    log(`[MsAuth] On Entra login page: ${actualEndpoint}`);
+  const credentials = await getLoginCredentials(config);
+  await performAuthenticationFlow(
+    page,
+    config,
+    targetUrl,
+    credentials,
+    resolveStorageStatePath(config, targetUrl),
+    false
+  );
+  log(
+    `[MsAuth] ##[section]Authentication completed successfully for '${config.email}'`
+  );
+}
 
-    // Enter email address
-    log(`[MsAuth] Entering email: ${config.email}`);
-    await page.getByRole("textbox", { name: "email" }).fill(config.email);
-    await page.getByRole("button", { name: "next" }).click();
+/**
+ * Retrieve the credential (and TOTP seed, if configured) for the user
+ */
+async function getLoginCredentials(
+  config: MsAuthConfig
+): Promise<LoginCredentials> {
+  log(`[MsAuth] Credential provider: ${config.credentialProvider}`);
+  log(`[MsAuth] Credential type: ${config.credentialType}`);
 
-    // Handle authentication based on credential type
-    if (credential.type === "certificate") {
-      await handleCertificateAuth(
-        page,
-        credential.value as Buffer,
-        actualEndpoint,
-        config.email
+  // Create credential provider and retrieve credential
+  const provider = CredentialProviderFactory.createProvider(
+    config.credentialProvider,
+    config.providerConfig,
+    { cloud: config.cloud }
+  );
+
+  const credential = await provider.getCredential();
+
+  // Validate credential type matches configuration
+  if (credential.type !== config.credentialType) {
+    log(
+      `[MsAuth] ##[warning]Credential type mismatch: expected '${config.credentialType}' but got '${credential.type}'`
+    );
+  }
+
+  // Fail before opening the browser if Entra would reject the certificate
+  if (credential.type === "certificate") {
+    let certificate: CertificateInfo | undefined;
+    try {
+      certificate = inspectCertificate(getCertificateCredential(credential));
+    } catch (error) {
+      // The sign-in itself does not need the certificate details
+      const message = error instanceof Error ? error.message : String(error);
+      log(
+        `[MsAuth] ##[warning]Could not inspect the certificate, skipping the expiry and UPN checks: ${message}`
       );
-    } else {
-      await handlePasswordAuth(page, credential.value as string, config.email);
     }
+    if (certificate) {
+      log(
+        `[MsAuth] Certificate ${certificate.thumbprint} (${
+          certificate.keyType
+        }), valid until ${certificate.notAfter.toISOString()}`
+      );
+      checkCertificate(
+        certificate,
+        config.email,
+        config.certificateExpiryWarningDays
+      );
+    }
+  }
 
-    // Handle "Stay signed in?" prompt
-    await handleStaySignedIn(page);
+  const totp = await getTotpSecret(config);
+  if (totp) {
+    log(`[MsAuth] TOTP seed loaded for MFA prompts`);
+  }
 
-    // Wait for redirect to target URL or any page on the same domain
-    log(`[MsAuth] Waiting for redirect to target domain`);
-    const targetDomain = new URL(targetUrl).origin;
-    const targetBaseDomain = new URL(targetUrl).hostname.split('.').slice(-3).join('.'); // e.g., "test.powerapps.com"
+  return { credential, totp };
+}
 
-    try {
-      // Try to wait for the exact URL first
-      await page.waitForURL(targetUrl, { timeout: 5000 });
-    } catch {
-      // If exact URL doesn't match, check if we're on the same base domain or at least off the login page
-      const currentUrl = page.url();
-      const currentHostname = new URL(currentUrl).hostname;
-      const currentBaseDomain = currentHostname.split('.').slice(-3).join('.');
-
-      // Success if we're on same base domain (e.g., *.test.powerapps.com) or same origin
-      const isOnTargetDomain = currentUrl.startsWith(targetDomain) || currentBaseDomain === targetBaseDomain;
-      // Also success if we're no longer on the login page
-      const loginEndpointHost = config.loginEndpoint || DEFAULT_LOGIN_ENDPOINT;
-      const isOffLoginPage = !currentHostname.includes(loginEndpointHost);
-
-      if (!isOnTargetDomain && !isOffLoginPage) {
-        throw new Error(
-          `Authentication may have failed. Expected to be on ${targetDomain} or similar, but got ${currentUrl}`
-        );
+/**
+ * Retrieve the storage state encryption key, if encryption is configured
+ * Keys are cached per provider configuration for the life of the process.
+ */
+export async function getStorageStateKey(
+  config: MsAuthConfig
+): Promise<string | undefined> {
+  if (!config.encryption) {
+    return undefined;
+  }
+
+  const cacheKey = JSON.stringify(config.encryption);
+  let key = encryptionKeys.get(cacheKey);
+  if (!key) {
+    const provider = CredentialProviderFactory.createProvider(
+      config.encryption.credentialProvider,
+      config.encryption.providerConfig,
+      { cloud: config.cloud }
+    );
+    log(
+      `[MsAuth] Retrieving storage state encryption key from ${provider.getProviderName()}`
+    );
+    key = provider.getCredential().then((credential) => {
+      const value = Buffer.isBuffer(credential.value)
+        ? credential.value.toString("utf-8")
+        : credential.value;
+      if (!value) {
+        throw new Error("Storage state encryption key is empty");
       }
-      log(`[MsAuth] Redirected to ${currentUrl} (authentication successful)`);
+      return value;
+    });
+    key.catch(() => encryptionKeys.delete(cacheKey));
+    encryptionKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+/**
+ * Perform the actual authentication flow on a page
+ * @param freshContext - True when the page belongs to a context created for
+ *   this login; supplied contexts may already hold a session.
+ */
+async function performAuthenticationFlow(
+  page: Page,
+  config: MsAuthConfig,
+  targetUrl: string,
+  credentials: LoginCredentials,
+  storagePath: string,
+  freshContext: boolean
+): Promise<void> {
+  const context = page.context();
+  const { credential } = credentials;
+  const loginEndpoint = getLoginEndpoint(config);
+
+  // sessionStorage can only be read from a page on its origin, so it is
+  // captured for each app before moving on to the next
+  const sessionStorage = new Map<string, OriginSessionStorage>();
+  const captureCurrentOrigin = async () => {
+    const captured = await captureSessionStorage(page);
+    if (captured?.sessionStorage.length) {
+      sessionStorage.set(captured.origin, captured);
     }
+  };
 
-    // Wait for MSAL tokens to be stored in localStorage (if enabled)
-    if (config.waitForMsalTokens !== false) {
-      const timeout = config.msalTokenTimeout || 30000;
-      const tokensFound = await waitForMsalTokens(page, timeout);
+  try {
+    await signInAt(page, config, targetUrl, credentials, {
+      requireLoginPage: freshContext,
+      loginPageTimeout: 30000,
+    });
 
-      if (tokensFound) {
-        log(`[MsAuth] MSAL tokens detected in localStorage`);
-      } else {
-        log(`[MsAuth] ##[warning]No MSAL tokens found - continuing anyway`);
-      }
+    // Sign in to the other apps through SSO, so their MSAL caches are saved too
+    for (const warmupUrl of config.warmupUrls ?? []) {
+      await captureCurrentOrigin();
+      await signInAt(page, config, warmupUrl, credentials, {
+        requireLoginPage: false,
+        loginPageTimeout: 10000,
+      });
     }
 
     // Give it a bit more time for any final writes to complete
     await page.waitForTimeout(2000);
+    await captureCurrentOrigin();
 
     // Save storage state
-    await ensureDirExists(
-      getStorageStatePath(config.email).replace(/[^/\\\\]+$/, "")
+    await ensureDirExists(storagePath.replace(/[^/\\\\]+$/, ""));
+    const encryptionKey = await getStorageStateKey(config);
+    const storageState: StorageState = await context.storageState();
+    if (sessionStorage.size > 0) {
+      storageState.sessionStorage = [...sessionStorage.values()];
+    }
+    await writeStorageStateFile(storagePath, storageState, encryptionKey);
+    log(
+      `[MsAuth] Saved ${
+        encryptionKey ? "encrypted " : ""
+      }storage state to ${storagePath}`
     );
-    await context.storageState({ path: storagePath });
-    log(`[MsAuth] Saved storage state to ${storagePath}`);
+
+    await writeStorageStateManifest(storagePath, {
+      email: config.email,
+      app: getStorageStateApp(config, targetUrl),
+      targetUrl,
+      warmupUrls: config.warmupUrls,
+      loginEndpoint,
+      credentialType: credential.type,
+      credentialFingerprint: getCredentialFingerprint(credential),
+      createdAt: new Date().toISOString(),
+      expiresAt: getStorageStateExpiry(storageState).expiresAt?.toISOString(),
+      encrypted: !!encryptionKey,
+      packageVersion: getPackageVersion(),
+    });
 
     // Take success screenshot
     const screenshotPath = getAuthScreenshotPath(config.email, "success");
@@ -217,139 +576,136 @@ async function performAuthenticationFlow(
     );
 
     throw error;
-  } finally {
-    await context.close();
   }
 }
 
 /**
- * Handle certificate-based authentication
+ * Navigate to a URL and complete the Entra sign-in it redirects to
  */
-async function handleCertificateAuth(
+async function signInAt(
   page: Page,
-  certificate: Buffer,
-  endpoint: string,
-  email: string
-): Promise<void> {
-  log(`[MsAuth] Using certificate authentication`);
-
-  // Log certificate fingerprint for debugging
-  const fingerprint = createHash("sha256")
-    .update(new Uint8Array(certificate))
-    .digest("hex");
-  log(`[MsAuth] Certificate fingerprint: ${fingerprint}`);
-  log(`[MsAuth] Certificate size: ${certificate.byteLength} bytes`);
-
-  // Add certificate authentication route
-  await addCertAuthRoute(page, { pfx: certificate, authEndpoint: endpoint });
-
-  // Handle account type selection if needed
-  const workOrSchoolButton = page.getByRole("button", {
-    name: "Work or school account",
-  });
-  if (
-    await workOrSchoolButton.isVisible({ timeout: 5000 }).catch(() => false)
-  ) {
-    log(`[MsAuth] Selecting 'Work or school account'`);
-    await workOrSchoolButton.click();
+  config: MsAuthConfig,
+  url: string,
+  { credential, totp, clientCertificates }: LoginCredentials,
+  options: {
+    /** Fail when the URL does not redirect to the login page */
+    requireLoginPage: boolean;
+    /** How long to wait for the redirect to the login page in milliseconds */
+    loginPageTimeout: number;
   }
+): Promise<void> {
+  // Navigate to target URL which will redirect to login
+  log(`[MsAuth] Navigating to ${url}`);
+  await page.goto(url, { waitUntil: "domcontentloaded" });
+
+  // Verify we're on the Entra login page
+  const loginEndpoint = getLoginEndpoint(config);
+  const loginUrlPattern = new RegExp(
+    `https:\\/\\/${loginEndpoint.replace(/\./g, "\\.")}\\\/`
+  );
 
-  // Handle certificate selection if needed
-  const certButton = page
-    .getByRole("link", { name: "certificate" })
-    .or(page.getByRole("button", { name: "certificate" }));
+  const onLoginPage = await expect(page, "Expected Entra sign-in page")
+    .toHaveURL(loginUrlPattern, { timeout: options.loginPageTimeout })
+    .then(() => true)
+    .catch((error) => {
+      if (options.requireLoginPage) throw error;
+      return false;
+    });
 
-  if (await certButton.isVisible({ timeout: 5000 }).catch(() => false)) {
-    log(`[MsAuth] Selecting certificate authentication`);
-    await certButton.click();
-  }
+  if (onLoginPage) {
+    const actualEndpoint = new URL(page.url()).hostname;
+    log(`[MsAuth] On Entra login page: ${actualEndpoint}`);
 
-  // Wait for certificate authentication to complete
-  log(`[MsAuth] Waiting for certificate authentication response`);
-  try {
-    await waitForCertAuthResponse(page, endpoint, 60000);
-  } catch (timeoutError) {
+    await runLoginFlow(page, {
+      config,
+      targetUrl: url,
+      credential,
+      loginEndpoint,
+      authEndpoint: actualEndpoint,
+      clientCertificates,
+      totp,
+      history: [],
+    });
+  } else {
     log(
-      `[MsAuth] ##[warning]Certificate authentication response not detected - this may be okay if auth flow changed`
+      `[MsAuth] Not redirected to sign-in, session already active at ${page.url()}`
     );
-    // Continue anyway - the cert auth might have succeeded without the expected response
   }
 
-  // Check for certificate validation errors
-  const certFailure = page.getByRole("heading", {
-    name: /Certificate validation failed|We couldn't sign you in with a certificate/i,
-  });
-
-  if (await certFailure.isVisible({ timeout: 5000 }).catch(() => false)) {
-    const failureText = await certFailure.textContent();
-    log(`[MsAuth] ##[error]Certificate authentication failed: ${failureText}`);
-
-    // Try to get error details
-    const moreDetails = page.getByRole("button", { name: "More details" });
-    if (await moreDetails.isVisible({ timeout: 5000 }).catch(() => false)) {
-      await moreDetails.click();
-      await page
-        .context()
-        .grantPermissions(["clipboard-read"])
-        .catch(() => {});
-      const copyButton = page.getByRole("button", { name: "Copy" });
-      if (await copyButton.isVisible({ timeout: 5000 }).catch(() => false)) {
-        await copyButton.click();
-        const errorDetails = await page
-          .evaluate("navigator.clipboard.readText()")
-          .catch(() => "");
-        if (errorDetails) {
-          log(`[MsAuth] ##[error]Error details: ${errorDetails}`);
-        }
-      }
-    }
+  // Wait for MSAL tokens to be stored in localStorage (if enabled)
+  if (config.waitForMsalTokens !== false) {
+    const timeout = config.msalTokenTimeout || 30000;
+    const tokensFound = config.msalTokenScopes?.length
+      ? await waitForMsalAccessToken(page, config.msalTokenScopes, timeout)
+      : await waitForMsalTokens(page, timeout);
 
-    throw new Error(
-      `Certificate authentication failed for ${email}. Check Entra sign-in logs.`
-    );
+    if (tokensFound) {
+      log(`[MsAuth] MSAL tokens detected in browser storage`);
+    } else {
+      log(`[MsAuth] ##[warning]No MSAL tokens found - continuing anyway`);
+    }
   }
-
-  log(`[MsAuth] Certificate authentication successful`);
-
-  // Wait a bit for any post-auth UI to load
-  await page.waitForTimeout(2000);
 }
 
 /**
- * Handle password-based authentication
+ * Wait until the page's MSAL cache holds an access token for the given scopes
  */
-async function handlePasswordAuth(
+async function waitForMsalAccessToken(
   page: Page,
-  password: string,
-  email: string
-): Promise<void> {
-  log(`[MsAuth] Using password authentication`);
-
-  // Wait for password field
-  await page
-    .getByRole("textbox", { name: "password" })
-    .waitFor({ timeout: 10000 });
-
-  // Enter password
-  log(`[MsAuth] Entering password`);
-  await page.getByRole("textbox", { name: "password" }).fill(password);
-  await page
-    .getByRole("button", { name: "submit" })
-    .or(page.locator('input[type="submit"]'))
-    .click();
-
-  // Check for password errors
-  await page.waitForTimeout(1000);
-  const passwordError = page.locator("#passwordError, .has-error");
-  if (await passwordError.isVisible().catch(() => false)) {
-    const errorText = await passwordError.textContent().catch(() => "");
-    log(`[MsAuth] ##[error]Password authentication failed: ${errorText}`);
-    throw new Error(
-      `Password authentication failed for ${email}. Please verify the password is correct.`
-    );
+  scopes: string[],
+  timeoutMs: number
+): Promise<boolean> {
+  log(
+    `[MsAuth] Waiting for an MSAL access token for '${scopes.join(
+      " "
+    )}' (timeout: ${timeoutMs}ms)`
+  );
+
+  const deadline = Date.now() + timeoutMs;
+  let lastError = "";
+  while (Date.now() < deadline) {
+    const storage = (await page
+      .evaluate(
+        `() => {
+          const read = (storage) =>
+            Object.keys(storage).map((name) => ({ name, value: storage.getItem(name) }));
+          return {
+            origin: location.origin,
+            localStorage: read(localStorage),
+            sessionStorage: read(sessionStorage),
+          };
+        }`
+      )
+      .catch(() => undefined)) as
+      | (OriginSessionStorage & {
+          localStorage: { name: string; value: string }[];
+        })
+      | undefined;
+
+    if (storage) {
+      try {
+        const token = getAccessToken(
+          {
+            cookies: [],
+            origins: [storage],
+            sessionStorage: [storage],
+          },
+          { scopes }
+        );
+        const granted = token.scopes.join(" ");
+        log(
+          `[MsAuth] Found access token for client ${token.clientId} (scopes: ${granted})`
+        );
+        return true;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    await page.waitForTimeout(500);
   }
 
-  log(`[MsAuth] Password authentication successful`);
+  log(`[MsAuth] ##[warning]${lastError || "No MSAL access token found"}`);
+  return false;
 }
 
 /**
@@ -360,13 +716,13 @@ async function waitForMsalTokens(
   page: Page,
   timeoutMs: number = 30000
 ): Promise<boolean> {
-  log(`[MsAuth] Waiting for MSAL tokens in localStorage (timeout: ${timeoutMs}ms)`);
+  log(`[MsAuth] Waiting for MSAL tokens in localStorage or sessionStorage (timeout: ${timeoutMs}ms)`);
 
   try {
-    // Poll localStorage for MSAL-related keys
+    // Poll localStorage and sessionStorage for MSAL-related keys
     await page.waitForFunction(
       `() => {
-        const keys = Object.keys(localStorage);
+        const keys = Object.keys(localStorage).concat(Object.keys(sessionStorage));
         const hasMsalKeys = keys.some(key =>
           key.startsWith('msal.') ||
           key.includes('accessToken') ||
@@ -382,7 +738,7 @@ async function waitForMsalTokens(
 
     // Log found keys for debugging
     const msalKeys = (await page.evaluate(`() => {
-      return Object.keys(localStorage).filter(key =>
+      return Object.keys(localStorage).concat(Object.keys(sessionStorage)).filter(key =>
         key.startsWith('msal.') ||
         key.includes('accessToken') ||
         key.includes('idToken') ||
@@ -392,14 +748,14 @@ async function waitForMsalTokens(
       );
     }`).catch(() => [])) as string[] || [];
 
-    log(`[MsAuth] Found ${msalKeys.length} MSAL-related localStorage keys`);
+    log(`[MsAuth] Found ${msalKeys.length} MSAL-related storage keys`);
     if (msalKeys.length > 0) {
       log(`[MsAuth] MSAL keys: ${msalKeys.slice(0, 5).join(', ')}${msalKeys.length > 5 ? '...' : ''}`);
     }
 
     return true;
   } catch (error) {
-    log(`[MsAuth] ##[warning]Timeout waiting for MSAL tokens - tokens may not be present in localStorage`);
+    log(`[MsAuth] ##[warning]Timeout waiting for MSAL tokens - tokens may not be present in localStorage or sessionStorage`);
 
     // Log what's actually in localStorage for debugging
     const allKeys = (await page.evaluate(`() => Object.keys(localStorage)`).catch(() => [])) as string[] || [];
@@ -410,50 +766,66 @@ async function waitForMsalTokens(
 }
 
 /**
- * Handle "Stay signed in?" prompt
+ * Load existing storage state into a browser context
+ *
+ * With a target URL, a missing, expired or rejected state is re-authenticated
+ * automatically. Without one, such a state is an error.
+ * @returns The storage state file path, to pass as `storageState`
+ * @throws When encryption is configured - use `loadStorageStateObject()`
  */
-async function handleStaySignedIn(page: Page): Promise<void> {
-  log(`[MsAuth] Checking for 'Stay signed in?' prompt...`);
-  
-  // Try multiple selectors for better compatibility
-  const staySignedInHeading = page.getByRole("heading", { name: /stay signed in/i });
-  const staySignedInText = page.getByText(/stay signed in/i);
-  const yesButton = page.getByRole("button", { name: /^yes$/i });
-  const noButton = page.getByRole("button", { name: /^no$/i });
-
-  // Check if the prompt is visible
-  const isPromptVisible = await Promise.race([
-    staySignedInHeading.isVisible({ timeout: 10000 }).catch(() => false),
-    staySignedInText.isVisible({ timeout: 10000 }).catch(() => false),
-  ]);
-
-  if (isPromptVisible) {
-    log(`[MsAuth] 'Stay signed in?' prompt detected - clicking Yes`);
-    
-    // Click Yes button
-    await yesButton.click({ timeout: 5000 }).catch(async () => {
-      log(`[MsAuth] Failed to click Yes button by role, trying alternative selector`);
-      await page.locator('input[type="submit"][value="Yes"]').click();
-    });
-    
-    log(`[MsAuth] Clicked 'Yes' on stay signed in prompt`);
-    
-    // Wait for navigation after clicking
-    await page.waitForTimeout(2000);
-  } else {
-    log(`[MsAuth] No 'Stay signed in?' prompt detected`);
+export async function loadStorageState(
+  config: MsAuthConfig,
+  targetUrl?: string
+): Promise<string> {
+  if (config.encryption) {
+    throw new Error(
+      `Storage state for '${config.email}' is encrypted and has no usable file path. ` +
+        `Use loadStorageStateObject() instead.`
+    );
   }
+  return (await resolveStorageState(config, targetUrl)) as string;
 }
 
 /**
- * Load existing storage state into a browser context
+ * Load existing storage state as an object, decrypting it when encryption is
+ * configured
+ *
+ * Re-authenticates like `loadStorageState()`.
+ * @returns The storage state, to pass as `storageState`
+ */
+export async function loadStorageStateObject(
+  config: MsAuthConfig,
+  targetUrl?: string
+): Promise<StorageState> {
+  const storageState = await resolveStorageState(config, targetUrl);
+  return typeof storageState === "string"
+    ? readStorageStateFile(storageState)
+    : storageState;
+}
+
+/**
+ * Ensure a usable storage state exists and load it for a browser context
+ * @returns The storage state file path, or the decrypted storage state when
+ *   encryption is configured - either can be passed as `storageState`
  */
-export async function loadStorageState(config: MsAuthConfig): Promise<string> {
-  const storagePath = getStorageStatePath(config.email);
+export async function resolveStorageState(
+  config: MsAuthConfig,
+  targetUrl?: string
+): Promise<string | StorageState> {
+  const storagePath = resolveStorageStatePath(config, targetUrl);
+
+  if (targetUrl) {
+    await authenticate(config, targetUrl);
+    return readSavedStorageState(config, storagePath);
+  }
 
   const isValid = await isStorageStateValid(
     storagePath,
-    config.storageStateExpiration
+    config.storageStateExpiration,
+    {
+      safetyMarginMinutes: config.expirySafetyMargin,
+      encryptionKey: await getStorageStateKey(config),
+    }
   );
   if (!isValid) {
     throw new Error(
@@ -462,5 +834,13 @@ export async function loadStorageState(config: MsAuthConfig): Promise<string> {
     );
   }
 
-  return storagePath;
+  if (!(await isSessionAlive(config, storagePath))) {
+    await invalidateStorageState(config, storagePath);
+    throw new Error(
+      `Storage state for '${config.email}' was rejected by the service. ` +
+        `Please run authentication again.`
+    );
+  }
+
+  return readSavedStorageState(config, storagePath);
 }
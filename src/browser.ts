@@ -0,0 +1,89 @@
+import type { Browser, BrowserType, LaunchOptions } from "@playwright/test";
+import { chromium, firefox, webkit } from "@playwright/test";
+import type { BrowserName, MsAuthConfig } from "./types";
+import { log } from "./utils";
+
+/** Channel used for chromium when none is configured */
+const DEFAULT_CHROMIUM_CHANNEL = "msedge";
+
+/** Channel value that selects the browser bundled with Playwright */
+export const BUNDLED_BROWSER_CHANNEL = "bundled";
+
+const DEFAULT_CHROMIUM_ARGS = ["--no-sandbox", "--disable-setuid-sandbox"];
+
+const browserTypes: Record<BrowserName, BrowserType> = {
+  chromium,
+  firefox,
+  webkit,
+};
+
+/**
+ * Build the launch options for the configured browser
+ */
+export function getLaunchOptions(config: MsAuthConfig): LaunchOptions {
+  const browserName = config.browser ?? "chromium";
+  const { args, ...launchOptions } = config.launchOptions ?? {};
+
+  const channel =
+    config.browserChannel ??
+    launchOptions.channel ??
+    (browserName === "chromium" ? DEFAULT_CHROMIUM_CHANNEL : undefined);
+
+  return {
+    ...launchOptions,
+    headless: config.headless ?? launchOptions.headless ?? true,
+    channel: channel === BUNDLED_BROWSER_CHANNEL ? undefined : channel,
+    args: [
+      ...(browserName === "chromium" ? DEFAULT_CHROMIUM_ARGS : []),
+      ...(args ?? []),
+    ],
+  };
+}
+
+/**
+ * Launch the browser configured for authentication
+ */
+export async function launchBrowser(config: MsAuthConfig): Promise<Browser> {
+  const browserName = config.browser ?? "chromium";
+  const browserType = browserTypes[browserName];
+  if (!browserType) {
+    throw new Error(
+      `Unsupported browser: ${browserName}. Use chromium, firefox or webkit.`
+    );
+  }
+
+  const options = getLaunchOptions(config);
+  log(
+    `[MsAuth] Launching ${browserName}` +
+      `${options.channel ? ` (channel: ${options.channel})` : ""}` +
+      ` with headless=${options.headless}`
+  );
+
+  return browserType.launch(options);
+}
+
+/**
+ * Connect to the remote browser configured in `config.connect`, or launch one
+ */
+export async function openBrowser(config: MsAuthConfig): Promise<Browser> {
+  const connect = config.connect;
+  if (!connect) {
+    return launchBrowser(config);
+  }
+
+  const browserName = config.browser ?? "chromium";
+  const { wsEndpoint, protocol = "playwright", headers, timeout } = connect;
+
+  if (protocol === "cdp") {
+    if (browserName !== "chromium") {
+      throw new Error(
+        `CDP connections are only supported for chromium, not ${browserName}`
+      );
+    }
+    log(`[MsAuth] Connecting to browser over CDP at ${wsEndpoint}`);
+    return chromium.connectOverCDP(wsEndpoint, { headers, timeout });
+  }
+
+  log(`[MsAuth] Connecting to ${browserName} browser server at ${wsEndpoint}`);
+  return browserTypes[browserName].connect(wsEndpoint, { headers, timeout });
+}
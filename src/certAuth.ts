@@ -1,12 +1,80 @@
-import type { Route, Request, Page } from "@playwright/test";
-import { Agent, AgentOptions, request as https } from "node:https";
+import type {
+  BrowserContextOptions,
+  Route,
+  Request,
+  Page,
+} from "@playwright/test";
+import type { IncomingHttpHeaders } from "node:http";
+import { request as https } from "node:https";
+import { connect, rootCertificates } from "node:tls";
+import { readFileSync } from "node:fs";
+import { brotliDecompressSync, gunzipSync, inflateSync } from "node:zlib";
+import type {
+  CertAuthRelayConfig,
+  CertificateAuthMode,
+  CertificateCredential,
+  ProxySettings,
+} from "./types";
+import { openProxyTunnel, resolveProxy } from "./proxy";
 import { log } from "./utils";
 
 const DEFAULT_AUTH_ENDPOINT = "login.microsoftonline.com";
 
+/** Default timeout of a relayed certauth request */
+const DEFAULT_RELAY_TIMEOUT = 30000;
+
+/** Connection-specific headers that are not relayed */
+const HOP_BY_HOP_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-connection",
+  "transfer-encoding",
+  "upgrade",
+  "host",
+  "content-length",
+  "accept-encoding",
+]);
+
+/** Response content encodings decoded before the body is fulfilled */
+const CONTENT_DECODERS: Record<string, (body: Buffer) => Buffer> = {
+  gzip: gunzipSync,
+  "x-gzip": gunzipSync,
+  deflate: inflateSync,
+  br: brotliDecompressSync,
+};
+
+/** Headers whose values are never logged */
+const SECRET_HEADERS = new Set([
+  "cookie",
+  "set-cookie",
+  "authorization",
+  "proxy-authorization",
+]);
+
+/** Response of a relayed certauth request, for `route.fulfill` */
+interface CertAuthResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+/** First Playwright version with `clientCertificates` on browser contexts */
+const CLIENT_CERTIFICATES_MIN_VERSION = [1, 46];
+
+/** Client certificate entry of Playwright browser context options */
+export type ClientCertificate = NonNullable<
+  BrowserContextOptions["clientCertificates"]
+>[number];
+
 export interface CertAuthOptions {
   /** The certificate for the user as a pfx buffer or base64 string */
-  pfx: Buffer | string;
+  pfx?: Buffer | string;
+
+  /** PEM certificate (chain), used with `key` instead of `pfx` */
+  cert?: Buffer | string;
+
+  /** PEM private key for `cert` */
+  key?: Buffer | string;
 
   /** Optional passphrase for the certificate */
   passphrase?: string;
@@ -16,6 +84,50 @@ export interface CertAuthOptions {
    * @default 'login.microsoftonline.com'
    */
   authEndpoint?: string;
+
+  /**
+   * Proxy for the relayed request (default: HTTPS_PROXY and NO_PROXY
+   * environment variables); false connects directly
+   */
+  proxy?: ProxySettings | false;
+
+  /** PEM CA certificates trusted in addition to the defaults */
+  ca?: Buffer | string;
+
+  /**
+   * Timeout per relayed request in milliseconds
+   * @default 30000
+   */
+  timeout?: number;
+}
+
+/**
+ * Get the certificate authentication options for a certificate credential
+ * A PEM chain is appended to the leaf certificate so it is sent along.
+ */
+export function getCertAuthOptions(
+  certificate: CertificateCredential,
+  authEndpoint?: string,
+  relay: CertAuthRelayConfig = {}
+): CertAuthOptions {
+  const relayOptions = {
+    authEndpoint,
+    proxy: relay.proxy,
+    ca: relay.caFile ? readFileSync(relay.caFile) : undefined,
+    timeout: relay.timeout,
+  };
+  if (certificate.format === "pfx") {
+    const { pfx, passphrase } = certificate;
+    return { pfx, passphrase, ...relayOptions };
+  }
+
+  const { cert, chain, key, passphrase } = certificate;
+  return {
+    cert: chain ? `${cert}\n${chain}` : cert,
+    key,
+    passphrase,
+    ...relayOptions,
+  };
 }
 
 /**
@@ -27,25 +139,106 @@ export async function addCertAuthRoute(
 ): Promise<void> {
   const endpoint = options.authEndpoint || DEFAULT_AUTH_ENDPOINT;
   const uri = getCertAuthGlob(endpoint);
-  const { pfx, passphrase } = options;
 
   log(
     `[CertAuth] Adding certificate authentication route for endpoint: ${endpoint}`
   );
-  await page.route(uri, certAuthHandler({ pfx, passphrase }));
+  await page.route(uri, certAuthHandler(options));
+}
+
+/**
+ * Get the client certificates for the certauth origins of an endpoint, for
+ * the `clientCertificates` option of a browser context
+ *
+ * Unlike the route, these apply to every page of the context, including
+ * popups.
+ */
+export function getCertAuthClientCertificates(
+  options: CertAuthOptions
+): ClientCertificate[] {
+  const endpoint = options.authEndpoint || DEFAULT_AUTH_ENDPOINT;
+  const { passphrase } = options;
+  const material = options.pfx
+    ? { pfx: toBuffer(options.pfx, "base64"), passphrase }
+    : options.cert && options.key
+    ? {
+        cert: toBuffer(options.cert, "utf-8"),
+        key: toBuffer(options.key, "utf-8"),
+        passphrase,
+      }
+    : undefined;
+
+  if (!material) {
+    throw new Error("Certificate authentication needs a pfx or a cert and key");
+  }
+  return [{ origin: `https://certauth.${endpoint}`, ...material }];
+}
+
+/**
+ * Resolve the certificate authentication mode for the installed Playwright
+ *
+ * "auto" selects client certificates on Playwright 1.46 and later and the
+ * route otherwise.
+ */
+export function resolveCertificateMode(
+  mode: CertificateAuthMode = "auto"
+): Exclude<CertificateAuthMode, "auto"> {
+  if (mode !== "auto") {
+    return mode;
+  }
+  return supportsClientCertificates() ? "client-certificates" : "route";
+}
+
+/**
+ * Check whether the installed Playwright supports `clientCertificates` on
+ * browser contexts
+ */
+export function supportsClientCertificates(): boolean {
+  const version = getPlaywrightVersion();
+  if (!version) {
+    return false;
+  }
+
+  const [major, minor] = version.split(".").map((part) => parseInt(part));
+  const [minMajor, minMinor] = CLIENT_CERTIFICATES_MIN_VERSION;
+  return major > minMajor || (major === minMajor && minor >= minMinor);
+}
+
+/**
+ * Get the version of the installed @playwright/test package
+ */
+function getPlaywrightVersion(): string | undefined {
+  try {
+    const packageJson = readFileSync(
+      require.resolve("@playwright/test/package.json"),
+      "utf-8"
+    );
+    return JSON.parse(packageJson).version;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert certificate material to a buffer
+ */
+function toBuffer(value: Buffer | string, encoding: BufferEncoding): Buffer {
+  return Buffer.isBuffer(value) ? value : Buffer.from(value, encoding);
 }
 
 /**
  * Create handler for certificate authentication requests
  * See https://learn.microsoft.com/en-us/entra/identity/authentication/concept-certificate-based-authentication-technical-deep-dive
  */
-function certAuthHandler(options: AgentOptions) {
+function certAuthHandler(options: CertAuthOptions) {
   return async (route: Route, request: Request) => {
     try {
       log(
-        `[CertAuth] Handling certificate authentication request to ${request.url()}`
+        `[CertAuth] Handling certificate authentication request to ${redactUrl(
+          request.url()
+        )}`
       );
-      const resp = await doCertAuthPost(request, options);
+      const resp = await relayCertAuthRequest(request, options);
       await route.fulfill(resp);
       log(
         `[CertAuth] Certificate authentication request completed with status ${resp.status}`
@@ -59,52 +252,172 @@ function certAuthHandler(options: AgentOptions) {
 }
 
 /**
- * Perform certificate authentication POST request
+ * Replay an intercepted certauth request from Node.js with the certificate
+ *
+ * The body is relayed as binary and the response is returned as is, including
+ * error statuses, every cookie and redirects (which the browser follows).
  */
-function doCertAuthPost(request: Request, options: AgentOptions) {
-  return new Promise<{
-    status: number;
-    headers: Record<string, string>;
-    body: string;
-  }>((resolve, reject) => {
-    const agent = new Agent(options);
-    const req = https(request.url(), {
-      method: "POST",
-      headers: request.headers(),
-      agent,
+async function relayCertAuthRequest(
+  request: Request,
+  options: CertAuthOptions
+): Promise<CertAuthResponse> {
+  const url = new URL(request.url());
+  const port = Number(url.port) || 443;
+  const timeout = options.timeout ?? DEFAULT_RELAY_TIMEOUT;
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(await request.allHeaders())) {
+    if (!name.startsWith(":") && !HOP_BY_HOP_HEADERS.has(name)) {
+      headers[name] = value;
+    }
+  }
+  // Ask for an unencoded body; encoded responses are decoded before fulfilling
+  headers["accept-encoding"] = "identity";
+  const body = request.postDataBuffer();
+  if (body) {
+    headers["content-length"] = String(body.byteLength);
+  }
+
+  const proxy = resolveProxy(url, options.proxy);
+  log(
+    `[CertAuth] > ${request.method()} ${redactUrl(url.href)}${
+      proxy ? ` via proxy ${proxy.url.host}` : ""
+    } [${formatHeaders(headers)}]`
+  );
+  const tunnel = proxy
+    ? await openProxyTunnel(proxy, url.hostname, port, timeout)
+    : undefined;
+
+  const response = await new Promise<CertAuthResponse>((resolve, reject) => {
+    const req = https(url, {
+      method: request.method(),
+      headers,
+      createConnection: () =>
+        connect({
+          pfx: options.pfx,
+          cert: options.cert,
+          key: options.key,
+          passphrase: options.passphrase,
+          ca: options.ca
+            ? [...rootCertificates, String(options.ca)]
+            : undefined,
+          servername: url.hostname,
+          ...(tunnel ? { socket: tunnel } : { host: url.hostname, port }),
+        }),
     });
 
+    req.setTimeout(timeout, () => {
+      req.destroy(new Error(`Cert auth request timed out after ${timeout}ms`));
+    });
     req.on("error", (err) => {
+      tunnel?.destroy();
       reject(err);
     });
 
     req.on("response", (res) => {
-      if (res.statusCode! >= 400) {
-        reject(
-          new Error(
-            `Cert auth request failed: ${res.statusCode} ${res.statusMessage}`
-          )
-        );
-        return;
-      }
-
-      let data = "";
-      res.on("data", (chunk) => {
-        data += Buffer.from(chunk).toString("utf-8");
-      });
-
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("error", reject);
       res.on("end", () => {
-        resolve({
-          status: res.statusCode!,
-          headers: res.headers as any,
-          body: data,
-        });
+        try {
+          const headers = toFulfillHeaders(res.headers, url);
+          resolve({
+            status: res.statusCode!,
+            headers,
+            body: decodeBody(Buffer.concat(chunks), headers),
+          });
+        } catch (err) {
+          reject(err);
+        }
       });
     });
 
-    req.write(request.postData());
-    req.end();
+    req.end(body ?? undefined);
   });
+
+  log(
+    `[CertAuth] < ${response.status} ${redactUrl(url.href)} [${formatHeaders(
+      response.headers
+    )}] (${response.body.byteLength} bytes)`
+  );
+  if (response.status >= 400) {
+    log(
+      `[CertAuth] ##[warning]Cert auth request failed with status ${response.status}; forwarding the response to the page`
+    );
+  }
+  return response;
+}
+
+/**
+ * Convert response headers for `route.fulfill`
+ * Multiple cookies are joined with newlines and redirects made absolute.
+ */
+function toFulfillHeaders(
+  headers: IncomingHttpHeaders,
+  url: URL
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || HOP_BY_HOP_HEADERS.has(name)) {
+      continue;
+    }
+    result[name] = Array.isArray(value) ? value.join("\n") : value;
+  }
+  if (result.location) {
+    result.location = new URL(result.location, url).href;
+  }
+  return result;
+}
+
+/**
+ * Decode a response body the server encoded despite `accept-encoding:
+ * identity`, and drop its `content-encoding` header
+ * Bodies with an unknown encoding are returned as is, with the header.
+ */
+function decodeBody(body: Buffer, headers: Record<string, string>): Buffer {
+  const encodings = (headers["content-encoding"] ?? "")
+    .split(",")
+    .map((encoding) => encoding.trim().toLowerCase())
+    .filter((encoding) => encoding && encoding !== "identity");
+  if (encodings.some((encoding) => !CONTENT_DECODERS[encoding])) {
+    return body;
+  }
+
+  delete headers["content-encoding"];
+  // Encodings are listed in the order they were applied
+  return encodings.reduceRight(
+    (decoded, encoding) => CONTENT_DECODERS[encoding](decoded),
+    body
+  );
+}
+
+/**
+ * Format headers for logging, with cookies and credentials redacted
+ */
+function formatHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) =>
+      SECRET_HEADERS.has(name)
+        ? `${name}: [redacted ${value.split("\n").length}]`
+        : `${name}: ${name === "location" ? redactUrl(value) : value}`
+    )
+    .join(", ");
+}
+
+/**
+ * Redact the query and fragment of a URL, which may carry codes or tokens
+ */
+function redactUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    for (const name of [...url.searchParams.keys()]) {
+      url.searchParams.set(name, "***");
+    }
+    url.hash = url.hash ? "#***" : "";
+    return url.href;
+  } catch {
+    return "[invalid URL]";
+  }
 }
 
 /**
@@ -0,0 +1,327 @@
+import { createPrivateKey, X509Certificate } from "node:crypto";
+import { createSecureContext } from "node:tls";
+import type {
+  CertificateCredential,
+  CredentialResult,
+  PemCertificateCredential,
+} from "./types";
+import { InvalidCertificateError } from "./errors";
+import { log } from "./utils";
+
+/** PEM block with its label, e.g. "CERTIFICATE" or "ENCRYPTED PRIVATE KEY" */
+const PEM_BLOCK = /-----BEGIN ([A-Z0-9 ]+)-----[\s\S]+?-----END \1-----/g;
+
+/** Entry of a subjectAltName list, e.g. `email:user@contoso.com` */
+const SAN_ENTRY = /([A-Za-z ]+):("(?:[^"\\]|\\.)*"|[^,]*)(?:, |$)/g;
+
+/** Default days before expiry at which a certificate is reported */
+const DEFAULT_EXPIRY_WARNING_DAYS = 14;
+
+/** Details of a user certificate */
+export interface CertificateInfo {
+  /** Subject distinguished name, one RDN per line */
+  subject: string;
+
+  /** Issuer distinguished name, one RDN per line */
+  issuer: string;
+
+  /** User principal names from the subject alternative names */
+  upns: string[];
+
+  /** Email addresses from the subject alternative names */
+  emails: string[];
+
+  /** SHA-1 thumbprint, as shown by Entra and Windows */
+  thumbprint: string;
+
+  /** SHA-256 thumbprint */
+  thumbprintSha256: string;
+
+  /** Serial number (hex) */
+  serialNumber: string;
+
+  /** Start of the validity period */
+  notBefore: Date;
+
+  /** End of the validity period */
+  notAfter: Date;
+
+  /** Public key algorithm and size, e.g. "RSA 2048" or "EC prime256v1" */
+  keyType: string;
+}
+
+/**
+ * Check whether a value holds PEM-encoded data
+ */
+export function isPem(value: string | Buffer): boolean {
+  return value.toString().includes("-----BEGIN ");
+}
+
+/**
+ * Split PEM text into the leaf certificate, its chain and the private key
+ * @param text PEM certificate(s), optionally followed by the private key
+ * @param options.key PEM private key kept apart from the certificate
+ * @param options.passphrase Passphrase of an encrypted private key
+ * @throws When the text holds no certificate or no private key is found
+ */
+export function parsePemCertificate(
+  text: string,
+  options: { key?: string; passphrase?: string } = {}
+): PemCertificateCredential {
+  const blocks = [...text.matchAll(PEM_BLOCK)];
+  const certs = blocks
+    .filter((block) => block[1] === "CERTIFICATE")
+    .map((block) => block[0]);
+  const key =
+    options.key?.match(PEM_BLOCK)?.[0] ??
+    blocks.find((block) => block[1].endsWith("PRIVATE KEY"))?.[0];
+
+  if (certs.length === 0) {
+    throw new Error("PEM data holds no certificate");
+  }
+  if (!key) {
+    throw new Error(
+      "PEM certificate has no private key; add it to the PEM data or provide a separate key"
+    );
+  }
+
+  return {
+    format: "pem",
+    cert: certs[0],
+    key,
+    chain: certs.length > 1 ? certs.slice(1).join("\n") : undefined,
+    passphrase: options.passphrase,
+  };
+}
+
+/**
+ * Parse a certificate stored as text, e.g. in an environment variable or
+ * secret: PEM, or a base64-encoded PFX
+ * @returns The certificate, or undefined when the value is not a certificate
+ */
+export function parseCertificateText(
+  value: string,
+  options: { key?: string; passphrase?: string } = {}
+): CertificateCredential | undefined {
+  if (isPem(value)) {
+    return parsePemCertificate(value, options);
+  }
+
+  const decoded = Buffer.from(value, "base64");
+  // DER-encoded PKCS#12 archives start with a SEQUENCE tag (0x30)
+  if (decoded.length > 100 && decoded[0] === 0x30) {
+    return { format: "pfx", pfx: decoded, passphrase: options.passphrase };
+  }
+  return undefined;
+}
+
+/**
+ * Create a credential result for certificate material
+ */
+export function createCertificateCredential(
+  certificate: CertificateCredential
+): CredentialResult {
+  return {
+    type: "certificate",
+    value:
+      certificate.format === "pfx"
+        ? certificate.pfx
+        : Buffer.from(certificate.cert),
+    certificate,
+  };
+}
+
+/**
+ * Get the certificate material of a certificate credential
+ * Custom providers that only set `value` are treated as returning a PFX.
+ */
+export function getCertificateCredential(
+  credential: CredentialResult
+): CertificateCredential {
+  if (credential.certificate) {
+    return credential.certificate;
+  }
+  if (isPem(credential.value)) {
+    return parsePemCertificate(credential.value.toString());
+  }
+  return {
+    format: "pfx",
+    pfx: Buffer.isBuffer(credential.value)
+      ? credential.value
+      : Buffer.from(credential.value, "base64"),
+  };
+}
+
+/**
+ * Read the details of a PFX or PEM certificate
+ *
+ * Opening the certificate also checks the passphrase and, for PEM, that the
+ * private key belongs to the certificate.
+ * @throws When the certificate cannot be read
+ */
+export function inspectCertificate(
+  certificate: CertificateCredential
+): CertificateInfo {
+  const x509 = openCertificate(certificate);
+  const { upns, emails } = parseSubjectAltNames(x509.subjectAltName);
+  const key = x509.publicKey;
+  const details = key.asymmetricKeyDetails;
+
+  return {
+    subject: x509.subject,
+    issuer: x509.issuer,
+    upns,
+    emails,
+    thumbprint: x509.fingerprint.replace(/:/g, ""),
+    thumbprintSha256: x509.fingerprint256.replace(/:/g, ""),
+    serialNumber: x509.serialNumber,
+    notBefore: new Date(x509.validFrom),
+    notAfter: new Date(x509.validTo),
+    keyType: [
+      key.asymmetricKeyType?.toUpperCase(),
+      details?.modulusLength ?? details?.namedCurve,
+    ]
+      .filter(Boolean)
+      .join(" "),
+  };
+}
+
+/**
+ * Check a certificate before signing in with it
+ *
+ * Warns when the certificate expires within `warningDays`.
+ * @throws {InvalidCertificateError} When the certificate is expired, not yet
+ * valid, or its UPN does not match the user's email
+ */
+export function checkCertificate(
+  info: CertificateInfo,
+  email: string,
+  warningDays: number = DEFAULT_EXPIRY_WARNING_DAYS
+): void {
+  const now = Date.now();
+  if (info.notAfter.getTime() <= now) {
+    throw new InvalidCertificateError(
+      `Certificate ${
+        info.thumbprint
+      } for ${email} expired on ${info.notAfter.toISOString()}`,
+      email,
+      info
+    );
+  }
+  if (info.notBefore.getTime() > now) {
+    throw new InvalidCertificateError(
+      `Certificate ${
+        info.thumbprint
+      } for ${email} is not valid before ${info.notBefore.toISOString()}`,
+      email,
+      info
+    );
+  }
+  if (
+    info.upns.length > 0 &&
+    !info.upns.some((upn) => upn.toLowerCase() === email.toLowerCase())
+  ) {
+    throw new InvalidCertificateError(
+      `Certificate ${info.thumbprint} is issued to ${info.upns.join(
+        ", "
+      )}, not ${email}`,
+      email,
+      info
+    );
+  }
+
+  const daysLeft = Math.floor(
+    (info.notAfter.getTime() - now) / (24 * 60 * 60 * 1000)
+  );
+  if (daysLeft < warningDays) {
+    log(
+      `[MsAuth] ##[warning]Certificate ${
+        info.thumbprint
+      } for ${email} expires in ${daysLeft} day(s) on ${info.notAfter.toISOString()}`
+    );
+  }
+}
+
+/**
+ * Open the leaf certificate of a PFX or PEM certificate credential
+ */
+function openCertificate(certificate: CertificateCredential): X509Certificate {
+  if (certificate.format === "pem") {
+    const x509 = new X509Certificate(certificate.cert);
+    let key;
+    try {
+      key = createPrivateKey({
+        key: certificate.key,
+        passphrase: certificate.passphrase,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Cannot read the PEM private key: ${message}. Check the certificate password.`
+      );
+    }
+    if (!x509.checkPrivateKey(key)) {
+      throw new Error("The PEM private key does not belong to the certificate");
+    }
+    return x509;
+  }
+
+  // Node.js has no PKCS#12 parser; a TLS context decodes the archive
+  let secureContext;
+  try {
+    secureContext = createSecureContext({
+      pfx: certificate.pfx,
+      passphrase: certificate.passphrase,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Cannot read the PFX certificate: ${message}. Check the certificate password.`
+    );
+  }
+  // The native context behind the secure context is not a public API, so
+  // check for it before use
+  const context = (
+    secureContext as unknown as {
+      context?: { getCertificate?(): Buffer | null };
+    }
+  ).context;
+  if (typeof context?.getCertificate !== "function") {
+    throw new Error(
+      `Node.js ${process.version} does not expose the certificate of a PFX archive`
+    );
+  }
+  const der = context.getCertificate();
+  if (!der) {
+    throw new Error("The PFX archive holds no certificate");
+  }
+  return new X509Certificate(der);
+}
+
+/**
+ * Extract the UPNs and email addresses from a subjectAltName list
+ */
+function parseSubjectAltNames(subjectAltName: string | undefined): {
+  upns: string[];
+  emails: string[];
+} {
+  const upns: string[] = [];
+  const emails: string[] = [];
+
+  for (const [, type, raw] of (subjectAltName ?? "").matchAll(SAN_ENTRY)) {
+    const value = unquote(raw);
+    if (type === "email") {
+      emails.push(value);
+    } else if (type === "othername" && value.startsWith("UPN:")) {
+      upns.push(unquote(value.slice("UPN:".length)));
+    }
+  }
+  return { upns, emails };
+}
+
+/**
+ * Remove the JSON quoting Node.js applies to values with special characters
+ */
+function unquote(value: string): string {
+  return value.startsWith('"') ? JSON.parse(value) : value;
+}
@@ -2,21 +2,50 @@
 
 import { Command } from "commander";
 import { authenticate } from "./authenticate";
-import { loadConfigFromEnv, validateConfig } from "./config";
+import {
+  loadConfigFromEnv,
+  loadProviderConfigFromEnv,
+  validateConfig,
+} from "./config";
+import {
+  checkCertificate,
+  getCertificateCredential,
+  inspectCertificate,
+} from "./certificate";
+import type { CertificateInfo } from "./certificate";
+import { authenticateAll, loadUsersConfig } from "./multiUser";
+import {
+  clearStorageStates,
+  getStorageStateInfo,
+  listStorageStates,
+} from "./manifest";
+import type { StorageStateInfo } from "./manifest";
+import { CredentialProviderFactory } from "./providers";
 import { EnvVars } from "./types";
-import { log } from "./utils";
+import type { CredentialProviderType } from "./types";
+import { getPackageVersion, log } from "./utils";
 
 const program = new Command();
 
 program
   .name("ms-auth")
   .description("Microsoft Entra authentication CLI for Playwright")
-  .version("1.0.0");
+  .version(getPackageVersion());
 
 program
   .command("login")
   .description("Perform Microsoft Entra authentication and save storage state")
-  .requiredOption("-u, --url <url>", "Target URL to authenticate against")
+  .option("-u, --url <url>", "Target URL to authenticate against")
+  .option("--all", "Authenticate every user in the users file")
+  .option(
+    "--users-file <path>",
+    `Multi-user configuration file for --all (or set ${EnvVars.USERS_FILE})`
+  )
+  .option(
+    "--users <names>",
+    "Comma-separated user names to authenticate with --all"
+  )
+  .option("--concurrency <n>", "Maximum parallel logins with --all")
   .option("-e, --email <email>", `User email (or set ${EnvVars.EMAIL})`)
   .option(
     "-t, --credential-type <type>",
@@ -25,7 +54,7 @@ program
   )
   .option(
     "-p, --credential-provider <provider>",
-    `Credential provider: azure-keyvault|local-file|environment|github-secrets (or set ${EnvVars.CREDENTIAL_PROVIDER})`,
+    `Credential provider: azure-keyvault|local-file|environment|github-secrets|hashicorp-vault|exec|chain (or set ${EnvVars.CREDENTIAL_PROVIDER})`,
     "azure-keyvault"
   )
   .option(
@@ -40,6 +69,10 @@ program
     "--local-file <path>",
     `Local file path for credential (or set ${EnvVars.LOCAL_FILE_PATH})`
   )
+  .option(
+    "--key-file <path>",
+    `PEM private key for a .pem/.crt --local-file (or set ${EnvVars.LOCAL_KEY_FILE_PATH})`
+  )
   .option(
     "--env-variable <name>",
     `Environment variable name (or set ${EnvVars.ENV_VARIABLE_NAME})`
@@ -56,11 +89,115 @@ program
     "--github-secret <secret>",
     `GitHub secret name (or set ${EnvVars.GITHUB_SECRET_NAME})`
   )
+  .option(
+    "--vault-addr <url>",
+    `HashiCorp Vault address (or set ${EnvVars.VAULT_ADDR} or VAULT_ADDR)`
+  )
+  .option(
+    "--vault-mount <path>",
+    `HashiCorp Vault KV mount path (or set ${EnvVars.VAULT_MOUNT})`
+  )
+  .option(
+    "--vault-secret-path <path>",
+    `HashiCorp Vault secret path (or set ${EnvVars.VAULT_SECRET_PATH})`
+  )
+  .option(
+    "--vault-field <field>",
+    `HashiCorp Vault secret field (or set ${EnvVars.VAULT_FIELD})`
+  )
+  .option(
+    "--vault-namespace <namespace>",
+    `HashiCorp Vault namespace (or set ${EnvVars.VAULT_NAMESPACE})`
+  )
+  .option(
+    "--vault-auth-method <method>",
+    `HashiCorp Vault auth method: token|approle|jwt (or set ${EnvVars.VAULT_AUTH_METHOD})`
+  )
+  .option(
+    "--exec-command <command>",
+    `External command printing the credential (or set ${EnvVars.EXEC_COMMAND})`
+  )
+  .option(
+    "--exec-args <json>",
+    `Arguments of --exec-command as a JSON array (or set ${EnvVars.EXEC_ARGS})`
+  )
+  .option(
+    "--exec-output <format>",
+    `Output format of --exec-command: password|pfx|json (or set ${EnvVars.EXEC_OUTPUT_FORMAT})`
+  )
+  .option(
+    "--chain-providers <providers>",
+    `Comma-separated providers tried in order by the chain provider (or set ${EnvVars.CHAIN_PROVIDERS})`
+  )
+  .option(
+    "--totp-provider <provider>",
+    `Credential provider holding the TOTP seed (or set ${EnvVars.TOTP_PROVIDER})`
+  )
+  .option(
+    "--totp-secret <location>",
+    `TOTP seed variable name, file path, secret name, Vault path#field or command JSON array (or set ${EnvVars.TOTP_SECRET})`
+  )
+  .option(
+    "--encryption-key-provider <provider>",
+    `Credential provider holding the storage state encryption key (or set ${EnvVars.ENCRYPTION_KEY_PROVIDER})`
+  )
+  .option(
+    "--encryption-key <location>",
+    `Encryption key variable name, file path, secret name, Vault path#field or command JSON array (or set ${EnvVars.ENCRYPTION_KEY})`
+  )
   .option(
     "--output-dir <dir>",
     `Output directory for storage state (or set ${EnvVars.OUTPUT_DIR})`
   )
   .option("--headful", "Run browser in headful mode (visible browser window)")
+  .option(
+    "--browser <browser>",
+    `Browser engine: chromium|firefox|webkit (or set ${EnvVars.BROWSER})`
+  )
+  .option(
+    "--channel <channel>",
+    `Browser channel, e.g. msedge|chrome|bundled (or set ${EnvVars.BROWSER_CHANNEL})`
+  )
+  .option("--proxy <server>", "Proxy server for the browser")
+  .option("--slow-mo <ms>", "Slow down browser operations by the given ms")
+  .option("--executable-path <path>", "Path to a browser executable")
+  .option(
+    "--ws-endpoint <url>",
+    `Connect to a remote browser instead of launching one (or set ${EnvVars.CONNECT_WS_ENDPOINT})`
+  )
+  .option("--cdp", "Connect to --ws-endpoint over the Chrome DevTools Protocol")
+  .option(
+    "--launch-options <json>",
+    `Playwright launch options as JSON (or set ${EnvVars.LAUNCH_OPTIONS})`
+  )
+  .option(
+    "--context-options <json>",
+    `Playwright browser context options as JSON (or set ${EnvVars.CONTEXT_OPTIONS})`
+  )
+  .option(
+    "--cloud <cloud>",
+    `Microsoft cloud: public|usgov|usgov-dod|china (or set ${EnvVars.CLOUD})`
+  )
+  .option(
+    "--certificate-mode <mode>",
+    `Certificate auth mode: auto|client-certificates|route (or set ${EnvVars.CERTIFICATE_MODE})`
+  )
+  .option(
+    "--app <name>",
+    `Keep a separate storage state for this application (or set ${EnvVars.APP})`
+  )
+  .option(
+    "--state-scope <scope>",
+    `Key storage states by user or by target URL origin: user|origin (or set ${EnvVars.STATE_SCOPE})`
+  )
+  .option(
+    "--warmup-urls <urls>",
+    `Comma-separated URLs to visit after signing in, saved in the same state (or set ${EnvVars.WARMUP_URLS})`
+  )
+  .option(
+    "--verify-session",
+    "Verify a saved session against the target URL before reusing it"
+  )
   .option("--debug", "Enable debug logging")
   .action(async (options) => {
     try {
@@ -69,6 +206,15 @@ program
         process.env[EnvVars.SYSTEM_DEBUG] = "true";
       }
 
+      if (options.all) {
+        await loginAll(options);
+        return;
+      }
+
+      if (!options.url) {
+        throw new Error("--url is required (or use --all with a users file)");
+      }
+
       log("[CLI] Starting authentication");
       log(`[CLI] Target URL: ${options.url}`);
 
@@ -92,15 +238,78 @@ program
         process.env[EnvVars.KEYVAULT_SECRET_NAME] = options.keyvaultSecret;
       if (options.localFile)
         process.env[EnvVars.LOCAL_FILE_PATH] = options.localFile;
+      if (options.keyFile)
+        process.env[EnvVars.LOCAL_KEY_FILE_PATH] = options.keyFile;
       if (options.envVariable)
         process.env[EnvVars.ENV_VARIABLE_NAME] = options.envVariable;
       if (options.githubRepo)
         process.env[EnvVars.GITHUB_REPOSITORY] = options.githubRepo;
       if (options.githubSecret)
         process.env[EnvVars.GITHUB_SECRET_NAME] = options.githubSecret;
+      if (options.vaultAddr)
+        process.env[EnvVars.VAULT_ADDR] = options.vaultAddr;
+      if (options.vaultMount)
+        process.env[EnvVars.VAULT_MOUNT] = options.vaultMount;
+      if (options.vaultSecretPath)
+        process.env[EnvVars.VAULT_SECRET_PATH] = options.vaultSecretPath;
+      if (options.vaultField)
+        process.env[EnvVars.VAULT_FIELD] = options.vaultField;
+      if (options.vaultNamespace)
+        process.env[EnvVars.VAULT_NAMESPACE] = options.vaultNamespace;
+      if (options.vaultAuthMethod)
+        process.env[EnvVars.VAULT_AUTH_METHOD] = options.vaultAuthMethod;
+      if (options.execCommand)
+        process.env[EnvVars.EXEC_COMMAND] = options.execCommand;
+      if (options.execArgs) process.env[EnvVars.EXEC_ARGS] = options.execArgs;
+      if (options.execOutput)
+        process.env[EnvVars.EXEC_OUTPUT_FORMAT] = options.execOutput;
+      if (options.chainProviders)
+        process.env[EnvVars.CHAIN_PROVIDERS] = options.chainProviders;
+      if (options.totpProvider)
+        process.env[EnvVars.TOTP_PROVIDER] = options.totpProvider;
+      if (options.totpSecret)
+        process.env[EnvVars.TOTP_SECRET] = options.totpSecret;
+      if (options.encryptionKeyProvider)
+        process.env[EnvVars.ENCRYPTION_KEY_PROVIDER] =
+          options.encryptionKeyProvider;
+      if (options.encryptionKey)
+        process.env[EnvVars.ENCRYPTION_KEY] = options.encryptionKey;
       if (options.outputDir)
         process.env[EnvVars.OUTPUT_DIR] = options.outputDir;
 
+      if (options.browser) process.env[EnvVars.BROWSER] = options.browser;
+      if (options.channel)
+        process.env[EnvVars.BROWSER_CHANNEL] = options.channel;
+      if (options.wsEndpoint)
+        process.env[EnvVars.CONNECT_WS_ENDPOINT] = options.wsEndpoint;
+      if (options.cdp) process.env[EnvVars.CONNECT_PROTOCOL] = "cdp";
+      if (options.verifySession) process.env[EnvVars.VERIFY_SESSION] = "true";
+      if (options.cloud) process.env[EnvVars.CLOUD] = options.cloud;
+      if (options.certificateMode)
+        process.env[EnvVars.CERTIFICATE_MODE] = options.certificateMode;
+      if (options.app) process.env[EnvVars.APP] = options.app;
+      if (options.stateScope)
+        process.env[EnvVars.STATE_SCOPE] = options.stateScope;
+      if (options.warmupUrls)
+        process.env[EnvVars.WARMUP_URLS] = options.warmupUrls;
+      if (options.contextOptions)
+        process.env[EnvVars.CONTEXT_OPTIONS] = options.contextOptions;
+      if (
+        options.launchOptions ||
+        options.proxy ||
+        options.slowMo ||
+        options.executablePath
+      ) {
+        const launchOptions = options.launchOptions
+          ? JSON.parse(options.launchOptions)
+          : JSON.parse(process.env[EnvVars.LAUNCH_OPTIONS] || "{}");
+        if (options.proxy) launchOptions.proxy = { server: options.proxy };
+        if (options.slowMo) launchOptions.slowMo = parseInt(options.slowMo);
+        if (options.executablePath)
+          launchOptions.executablePath = options.executablePath;
+        process.env[EnvVars.LAUNCH_OPTIONS] = JSON.stringify(launchOptions);
+      }
+
       // Load configuration from environment
       const config = loadConfigFromEnv();
 
@@ -113,6 +322,7 @@ program
       log(`[CLI] Credential type: ${config.credentialType}`);
       log(`[CLI] Credential provider: ${config.credentialProvider}`);
       log(`[CLI] Browser mode: ${config.headless ? "headless" : "headful"}`);
+      log(`[CLI] Browser: ${config.browser ?? "chromium"}`);
 
       // Perform authentication
       await authenticate(config, options.url);
@@ -131,6 +341,276 @@ program
     }
   });
 
+/**
+ * Authenticate all users from the users file and print a summary
+ */
+async function loginAll(options: {
+  usersFile?: string;
+  users?: string;
+  concurrency?: string;
+  headful?: boolean;
+}): Promise<void> {
+  const usersFile = options.usersFile || process.env[EnvVars.USERS_FILE];
+  if (!usersFile) {
+    throw new Error(
+      `--users-file (or ${EnvVars.USERS_FILE}) is required with --all`
+    );
+  }
+
+  const usersConfig = await loadUsersConfig(usersFile);
+  if (options.headful) {
+    usersConfig.defaults = { ...usersConfig.defaults, headless: false };
+  }
+
+  const results = await authenticateAll(usersConfig, {
+    concurrency: options.concurrency
+      ? parseInt(options.concurrency)
+      : undefined,
+    only: options.users?.split(",").map((name) => name.trim()),
+  });
+
+  console.log("\nAuthentication summary:");
+  for (const result of results) {
+    const duration = `${(result.durationMs / 1000).toFixed(1)}s`;
+    if (result.success) {
+      console.log(`  ✅ ${result.name} (${result.email}) - ${duration}`);
+    } else {
+      console.log(
+        `  ❌ ${result.name} (${result.email}) - ${duration}: ${result.error?.message}`
+      );
+    }
+  }
+
+  const failed = results.filter((result) => !result.success).length;
+  console.log(
+    `\n${results.length - failed} succeeded, ${failed} failed (${
+      results.length
+    } total)`
+  );
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+program
+  .command("status")
+  .description("List saved storage states and whether they are still valid")
+  .option("--json", "Print the states as JSON")
+  .option(
+    "--output-dir <dir>",
+    `Storage state directory (or set ${EnvVars.OUTPUT_DIR})`
+  )
+  .action(async (options) => {
+    if (options.outputDir) process.env[EnvVars.OUTPUT_DIR] = options.outputDir;
+
+    const states = await listStorageStates(getStorageStateQueryOptions());
+    if (options.json) {
+      console.log(JSON.stringify(states, null, 2));
+      return;
+    }
+    if (states.length === 0) {
+      console.log("No saved storage states");
+      return;
+    }
+
+    console.table(
+      states.map((state) => ({
+        Email: state.email,
+        App: state.app ?? "-",
+        "Target URL": state.manifest?.targetUrl ?? "-",
+        Created: state.createdAt.toISOString(),
+        Expires: state.expiresAt?.toISOString() ?? "-",
+        Status: state.valid ? "valid" : "expired",
+      }))
+    );
+  });
+
+program
+  .command("clear")
+  .description("Delete saved storage states")
+  .option("-e, --email <email>", "Only delete the states of this user")
+  .option("--app <name>", "Only delete the states scoped to this application")
+  .option("--expired", "Only delete states that are no longer valid")
+  .option(
+    "--output-dir <dir>",
+    `Storage state directory (or set ${EnvVars.OUTPUT_DIR})`
+  )
+  .action(async (options) => {
+    if (options.outputDir) process.env[EnvVars.OUTPUT_DIR] = options.outputDir;
+
+    const cleared = await clearStorageStates({
+      ...getStorageStateQueryOptions(),
+      email: options.email,
+      app: options.app,
+      expired: options.expired,
+    });
+    for (const state of cleared) {
+      const name = state.app ? `${state.email} (${state.app})` : state.email;
+      console.log(`🗑️  Cleared ${name}: ${state.storagePath}`);
+    }
+    console.log(`${cleared.length} storage state(s) cleared`);
+  });
+
+program
+  .command("show <email>")
+  .description("Show the manifest and validity of a user's storage state")
+  .option("--app <name>", "Application the state is scoped to")
+  .option(
+    "--output-dir <dir>",
+    `Storage state directory (or set ${EnvVars.OUTPUT_DIR})`
+  )
+  .action(async (email: string, options) => {
+    if (options.outputDir) process.env[EnvVars.OUTPUT_DIR] = options.outputDir;
+
+    const state = await getStorageStateInfo(email, {
+      ...getStorageStateQueryOptions(),
+      app: options.app,
+    });
+    if (!state) {
+      console.error(`❌ No storage state saved for ${email}`);
+      process.exit(1);
+    }
+    printStorageState(state);
+  });
+
+/**
+ * Validity settings for the storage state commands, from the environment
+ */
+function getStorageStateQueryOptions() {
+  const expiration = process.env[EnvVars.STORAGE_STATE_EXPIRATION];
+  const margin = process.env[EnvVars.EXPIRY_SAFETY_MARGIN];
+  return {
+    storageStateExpiration: expiration ? parseInt(expiration) : undefined,
+    expirySafetyMargin: margin ? parseInt(margin) : undefined,
+  };
+}
+
+/**
+ * Print the details of one storage state
+ */
+function printStorageState(state: StorageStateInfo): void {
+  const { manifest } = state;
+  console.log(`Email:          ${state.email}`);
+  console.log(`App:            ${state.app ?? "-"}`);
+  console.log(`File:           ${state.storagePath}`);
+  console.log(`Status:         ${state.valid ? "✅ valid" : "❌ expired"}`);
+  console.log(`Created:        ${state.createdAt.toISOString()}`);
+  console.log(`Expires:        ${state.expiresAt?.toISOString() ?? "unknown"}`);
+  if (!manifest) {
+    console.log("No manifest recorded for this state");
+    return;
+  }
+  console.log(`Target URL:     ${manifest.targetUrl}`);
+  if (manifest.warmupUrls?.length) {
+    console.log(`Warm-up URLs:   ${manifest.warmupUrls.join(", ")}`);
+  }
+  console.log(`Login endpoint: ${manifest.loginEndpoint}`);
+  console.log(`Credential:     ${manifest.credentialType}`);
+  console.log(`Fingerprint:    ${manifest.credentialFingerprint}`);
+  console.log(`Encrypted:      ${manifest.encrypted ? "yes" : "no"}`);
+  console.log(`Saved by:       playwright-ms-auth ${manifest.packageVersion}`);
+}
+
+const cert = program.command("cert").description("Inspect user certificates");
+
+cert
+  .command("inspect [file]")
+  .description(
+    "Print subject, SANs, thumbprint, validity and key type of a user certificate"
+  )
+  .option(
+    "-e, --email <email>",
+    `Check expiry and UPN against this user (or set ${EnvVars.EMAIL})`
+  )
+  .option(
+    "-p, --credential-provider <provider>",
+    `Provider holding the certificate when no file is given (or set ${EnvVars.CREDENTIAL_PROVIDER})`
+  )
+  .option(
+    "--password <password>",
+    `Certificate password (or set ${EnvVars.CERTIFICATE_PASSWORD})`
+  )
+  .option(
+    "--key-file <path>",
+    `PEM private key for a .pem/.crt file (or set ${EnvVars.LOCAL_KEY_FILE_PATH})`
+  )
+  .option("--json", "Print the details as JSON")
+  .action(async (file: string | undefined, options) => {
+    try {
+      if (file) process.env[EnvVars.LOCAL_FILE_PATH] = file;
+      if (options.password)
+        process.env[EnvVars.CERTIFICATE_PASSWORD] = options.password;
+      if (options.keyFile)
+        process.env[EnvVars.LOCAL_KEY_FILE_PATH] = options.keyFile;
+
+      const providerType = (
+        file
+          ? "local-file"
+          : options.credentialProvider ||
+            process.env[EnvVars.CREDENTIAL_PROVIDER] ||
+            "azure-keyvault"
+      ) as CredentialProviderType;
+      const provider = CredentialProviderFactory.createProvider(
+        providerType,
+        loadProviderConfigFromEnv(providerType)
+      );
+      const credential = await provider.getCredential();
+      if (credential.type !== "certificate") {
+        throw new Error(
+          `${provider.getProviderName()} returned a ${
+            credential.type
+          }, not a certificate`
+        );
+      }
+
+      const info = inspectCertificate(getCertificateCredential(credential));
+      if (options.json) {
+        console.log(JSON.stringify(info, null, 2));
+      } else {
+        printCertificate(info);
+      }
+
+      const email = options.email || process.env[EnvVars.EMAIL];
+      if (email) {
+        checkCertificate(info, email, getCertificateExpiryWarningDays());
+        console.error(`✅ Certificate is valid for ${email}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Days before certificate expiry to warn, from the environment
+ */
+function getCertificateExpiryWarningDays(): number | undefined {
+  const days = process.env[EnvVars.CERTIFICATE_EXPIRY_WARNING_DAYS];
+  return days ? parseInt(days) : undefined;
+}
+
+/**
+ * Print the details of a certificate
+ */
+function printCertificate(info: CertificateInfo): void {
+  const daysLeft = Math.floor(
+    (info.notAfter.getTime() - Date.now()) / (24 * 60 * 60 * 1000)
+  );
+  console.log(`Subject:        ${info.subject.replace(/\n/g, ", ")}`);
+  console.log(`Issuer:         ${info.issuer.replace(/\n/g, ", ")}`);
+  console.log(`UPN:            ${info.upns.join(", ") || "-"}`);
+  console.log(`Email:          ${info.emails.join(", ") || "-"}`);
+  console.log(`Thumbprint:     ${info.thumbprint}`);
+  console.log(`SHA-256:        ${info.thumbprintSha256}`);
+  console.log(`Serial number:  ${info.serialNumber}`);
+  console.log(`Not before:     ${info.notBefore.toISOString()}`);
+  console.log(
+    `Not after:      ${info.notAfter.toISOString()} (${
+      daysLeft < 0 ? "expired" : `${daysLeft} day(s) left`
+    })`
+  );
+  console.log(`Key type:       ${info.keyType}`);
+}
+
 program
   .command("env-help")
   .description("Show all supported environment variables")
@@ -142,7 +622,22 @@ program
       `  ${EnvVars.CREDENTIAL_TYPE}     - Credential type (password|certificate)`
     );
     console.log(
-      `  ${EnvVars.CREDENTIAL_PROVIDER} - Provider type (azure-keyvault|local-file|environment|github-secrets)`
+      `  ${EnvVars.CERTIFICATE_MODE}    - Certificate auth mode (auto|client-certificates|route, default: auto)`
+    );
+    console.log(
+      `  ${EnvVars.CERTIFICATE_EXPIRY_WARNING_DAYS} - Days before certificate expiry to warn (default: 14)`
+    );
+    console.log(
+      `  ${EnvVars.CERTAUTH_PROXY}      - Proxy URL for the relayed certauth request ("direct" to ignore HTTPS_PROXY)`
+    );
+    console.log(
+      `  ${EnvVars.CA_FILE}             - PEM bundle of extra CA certificates for the certauth request`
+    );
+    console.log(
+      `  ${EnvVars.CERTAUTH_TIMEOUT}    - Certauth request timeout in milliseconds (default: 30000)`
+    );
+    console.log(
+      `  ${EnvVars.CREDENTIAL_PROVIDER} - Provider type (azure-keyvault|local-file|environment|github-secrets|hashicorp-vault|exec|chain)`
     );
     console.log(
       `  ${EnvVars.OUTPUT_DIR}          - Output directory for storage state`
@@ -151,7 +646,51 @@ program
       `  ${EnvVars.LOGIN_ENDPOINT}      - Entra login endpoint (default: login.microsoftonline.com)`
     );
     console.log(
-      `  ${EnvVars.STORAGE_STATE_EXPIRATION} - Hours until storage state expires (default: 24)`
+      `  ${EnvVars.CLOUD}               - Microsoft cloud (public|usgov|usgov-dod|china, default: public)`
+    );
+    console.log(
+      `  ${EnvVars.STORAGE_STATE_EXPIRATION} - Upper bound in hours on storage state age (default: 24)`
+    );
+    console.log(
+      `  ${EnvVars.EXPIRY_SAFETY_MARGIN} - Minutes before token/cookie expiry to re-authenticate (default: 5)`
+    );
+    console.log(
+      `  ${EnvVars.TOKEN_REFRESH}       - Renew expired states with cached refresh tokens (true|false, default: true)`
+    );
+    console.log(
+      `  ${EnvVars.VERIFY_SESSION}      - Verify saved sessions against the target URL before reuse (true|false)`
+    );
+    console.log(
+      `  ${EnvVars.APP}                 - Application profile the storage state is scoped to`
+    );
+    console.log(
+      `  ${EnvVars.STATE_SCOPE}         - Storage state scope when no app is set (user|origin, default: user)`
+    );
+    console.log(
+      `  ${EnvVars.WARMUP_URLS}         - Comma-separated URLs visited after signing in`
+    );
+    console.log();
+    console.log("Browser:");
+    console.log(
+      `  ${EnvVars.BROWSER}             - Browser engine (chromium|firefox|webkit, default: chromium)`
+    );
+    console.log(
+      `  ${EnvVars.BROWSER_CHANNEL}     - Browser channel (default: msedge, "bundled" for Playwright's browser)`
+    );
+    console.log(
+      `  ${EnvVars.LAUNCH_OPTIONS}      - Playwright launch options as JSON`
+    );
+    console.log(
+      `  ${EnvVars.CONTEXT_OPTIONS}     - Playwright browser context options as JSON`
+    );
+    console.log(
+      `  ${EnvVars.CONNECT_WS_ENDPOINT} - Remote browser endpoint to connect to`
+    );
+    console.log(
+      `  ${EnvVars.CONNECT_PROTOCOL}    - Remote browser protocol (playwright|cdp)`
+    );
+    console.log(
+      `  ${EnvVars.USERS_FILE}          - Multi-user configuration file for login --all`
     );
     console.log();
     console.log("Azure KeyVault Provider:");
@@ -160,6 +699,9 @@ program
     console.log();
     console.log("Local File Provider:");
     console.log(`  ${EnvVars.LOCAL_FILE_PATH}     - Path to credential file`);
+    console.log(
+      `  ${EnvVars.LOCAL_KEY_FILE_PATH} - PEM private key (default: certificate path with .key)`
+    );
     console.log(
       `  ${EnvVars.CERTIFICATE_PASSWORD}- Password for encrypted certificate`
     );
@@ -168,6 +710,12 @@ program
     console.log(
       `  ${EnvVars.ENV_VARIABLE_NAME}   - Name of environment variable containing credential`
     );
+    console.log(
+      `  ${EnvVars.ENV_KEY_VARIABLE_NAME} - Name of environment variable containing the PEM private key`
+    );
+    console.log(
+      `  ${EnvVars.CERTIFICATE_PASSWORD}- Password for encrypted certificate`
+    );
     console.log();
     console.log("GitHub Secrets Provider:");
     console.log(
@@ -176,6 +724,88 @@ program
     console.log(`  ${EnvVars.GITHUB_SECRET_NAME}  - GitHub secret name`);
     console.log(`  ${EnvVars.GITHUB_TOKEN}        - GitHub token (optional)`);
     console.log();
+    console.log("HashiCorp Vault Provider:");
+    console.log(
+      `  ${EnvVars.VAULT_ADDR}          - Vault address (default: VAULT_ADDR)`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_SECRET_PATH}   - Secret path within the KV mount`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_MOUNT}         - KV mount path (default: secret)`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_KV_VERSION}    - KV version (1|2, default: 2)`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_FIELD}         - Secret field with the password, certificate or TOTP seed (default: value)`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_PASSWORD_FIELD} - Secret field with the certificate password`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_NAMESPACE}     - Vault Enterprise namespace (default: VAULT_NAMESPACE)`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_CACERT}        - PEM CA bundle for the Vault server (default: VAULT_CACERT)`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_AUTH_METHOD}   - Auth method (token|approle|jwt, default: inferred)`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_AUTH_MOUNT}    - Auth method mount path (default: approle or jwt)`
+    );
+    console.log(
+      `  ${EnvVars.VAULT_TOKEN}         - Vault token (default: VAULT_TOKEN)`
+    );
+    console.log(`  ${EnvVars.VAULT_ROLE_ID}       - AppRole role ID`);
+    console.log(`  ${EnvVars.VAULT_SECRET_ID}     - AppRole secret ID`);
+    console.log(`  ${EnvVars.VAULT_JWT_ROLE}      - JWT auth role`);
+    console.log(
+      `  ${EnvVars.VAULT_JWT}           - JWT to log in with (default: GitHub Actions OIDC token)`
+    );
+    console.log();
+    console.log("External Command Provider:");
+    console.log(
+      `  ${EnvVars.EXEC_COMMAND}        - Command printing the credential (run without a shell)`
+    );
+    console.log(
+      `  ${EnvVars.EXEC_ARGS}           - Command arguments as a JSON array`
+    );
+    console.log(
+      `  ${EnvVars.EXEC_OUTPUT_FORMAT}  - Output format (password|pfx|json, default: password)`
+    );
+    console.log(
+      `  ${EnvVars.EXEC_ENV}            - Comma-separated variables passed on to the command`
+    );
+    console.log(
+      `  ${EnvVars.EXEC_TIMEOUT}        - Time limit in milliseconds (default: 30000)`
+    );
+    console.log(
+      `  ${EnvVars.CERTIFICATE_PASSWORD}- Password of a PFX printed by the command`
+    );
+    console.log();
+    console.log("Chain Provider:");
+    console.log(
+      `  ${EnvVars.CHAIN_PROVIDERS}     - Comma-separated providers tried in order, each configured by its own variables`
+    );
+    console.log();
+    console.log("MFA (Authenticator App):");
+    console.log(
+      `  ${EnvVars.TOTP_PROVIDER}       - Provider holding the TOTP seed (default: environment)`
+    );
+    console.log(
+      `  ${EnvVars.TOTP_SECRET}         - Seed variable name, file path, secret name, Vault path#field or command JSON array`
+    );
+    console.log();
+    console.log("Storage State Encryption:");
+    console.log(
+      `  ${EnvVars.ENCRYPTION_KEY_PROVIDER} - Provider holding the encryption key (default: environment)`
+    );
+    console.log(
+      `  ${EnvVars.ENCRYPTION_KEY}      - Key variable name, file path, secret name, Vault path#field or command JSON array`
+    );
+    console.log();
     console.log("Debug:");
     console.log(
       `  ${EnvVars.SYSTEM_DEBUG}        - Enable debug logging (true|false)`
@@ -0,0 +1,75 @@
+import type { CloudConfig, CloudName } from "./types";
+
+/**
+ * Endpoints of the Microsoft clouds
+ * See https://learn.microsoft.com/en-us/entra/identity-platform/authentication-national-cloud
+ */
+export const CLOUDS: Record<CloudName, CloudConfig> = {
+  public: {
+    loginEndpoint: "login.microsoftonline.com",
+    keyVaultDnsSuffix: "vault.azure.net",
+    authorityHost: "https://login.microsoftonline.com",
+  },
+  usgov: {
+    loginEndpoint: "login.microsoftonline.us",
+    keyVaultDnsSuffix: "vault.usgovcloudapi.net",
+    authorityHost: "https://login.microsoftonline.us",
+  },
+  "usgov-dod": {
+    loginEndpoint: "login.microsoftonline.us",
+    keyVaultDnsSuffix: "vault.usgovcloudapi.net",
+    authorityHost: "https://login.microsoftonline.us",
+  },
+  china: {
+    loginEndpoint: "login.chinacloudapi.cn",
+    keyVaultDnsSuffix: "vault.azure.cn",
+    authorityHost: "https://login.chinacloudapi.cn",
+  },
+};
+
+/**
+ * Get the endpoints of a cloud preset or custom cloud (default: public)
+ * @throws When the preset name is unknown
+ */
+export function getCloudConfig(cloud?: CloudName | CloudConfig): CloudConfig {
+  if (typeof cloud === "object") {
+    return cloud;
+  }
+
+  const preset = CLOUDS[cloud ?? "public"];
+  if (!preset) {
+    throw new Error(
+      `Invalid cloud: ${cloud}. Use ${Object.keys(CLOUDS).join(
+        ", "
+      )} or a custom cloud object.`
+    );
+  }
+  return preset;
+}
+
+/**
+ * Find the cloud preset a Key Vault endpoint belongs to
+ * @returns The cloud, or undefined for endpoints outside the presets
+ */
+export function getCloudForKeyVaultEndpoint(
+  keyVaultEndpoint: string
+): CloudConfig | undefined {
+  return Object.values(CLOUDS).find((cloud) =>
+    isKeyVaultInCloud(keyVaultEndpoint, cloud)
+  );
+}
+
+/**
+ * Check whether a Key Vault endpoint uses the cloud's DNS suffix
+ */
+export function isKeyVaultInCloud(
+  keyVaultEndpoint: string,
+  cloud: CloudConfig
+): boolean {
+  try {
+    const hostname = new URL(keyVaultEndpoint).hostname.toLowerCase();
+    return hostname.endsWith(`.${cloud.keyVaultDnsSuffix.toLowerCase()}`);
+  } catch {
+    return false;
+  }
+}
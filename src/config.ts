@@ -1,14 +1,43 @@
 import type {
+  BrowserName,
+  CertAuthRelayConfig,
+  CertificateAuthMode,
+  ChainConfig,
+  CloudName,
   MsAuthConfig,
   CredentialProviderType,
   CredentialType,
   AzureKeyVaultConfig,
   LocalFileConfig,
   EnvironmentConfig,
+  ExecConfig,
   GitHubSecretsConfig,
+  HashiCorpVaultAuth,
+  HashiCorpVaultConfig,
   ProviderConfig,
+  StorageStateEncryptionConfig,
+  TotpConfig,
 } from "./types";
-import { EnvVars } from "./types";
+import { CREDENTIAL_PROVIDER_TYPES, EnvVars } from "./types";
+import { getCloudConfig, isKeyVaultInCloud } from "./clouds";
+
+/** Provider type and configuration (if any could be loaded) of a chain link */
+type ChainLink = [CredentialProviderType, ProviderConfig | undefined];
+
+/** Default Entra login endpoint */
+export const DEFAULT_LOGIN_ENDPOINT = "login.microsoftonline.com";
+
+/**
+ * Get the Entra login endpoint hostname for a configuration
+ */
+export function getLoginEndpoint(config: MsAuthConfig): string {
+  return (
+    config.loginEndpoint ||
+    (config.cloud
+      ? getCloudConfig(config.cloud).loginEndpoint
+      : DEFAULT_LOGIN_ENDPOINT)
+  );
+}
 
 /**
  * Load configuration from environment variables
@@ -35,20 +64,195 @@ export function loadConfigFromEnv(): MsAuthConfig {
     storageStateExpiration: process.env[EnvVars.STORAGE_STATE_EXPIRATION]
       ? parseInt(process.env[EnvVars.STORAGE_STATE_EXPIRATION]!)
       : 24,
+    expirySafetyMargin: process.env[EnvVars.EXPIRY_SAFETY_MARGIN]
+      ? parseInt(process.env[EnvVars.EXPIRY_SAFETY_MARGIN]!)
+      : undefined,
+    cloud: process.env[EnvVars.CLOUD] as CloudName | undefined,
     loginEndpoint: process.env[EnvVars.LOGIN_ENDPOINT],
+    certificateMode: process.env[EnvVars.CERTIFICATE_MODE] as
+      | CertificateAuthMode
+      | undefined,
+    certAuthRelay: loadCertAuthRelayConfigFromEnv(),
+    certificateExpiryWarningDays: process.env[
+      EnvVars.CERTIFICATE_EXPIRY_WARNING_DAYS
+    ]
+      ? parseInt(process.env[EnvVars.CERTIFICATE_EXPIRY_WARNING_DAYS]!)
+      : undefined,
     waitForMsalTokens: process.env[EnvVars.WAIT_FOR_MSAL_TOKENS]
       ? process.env[EnvVars.WAIT_FOR_MSAL_TOKENS]!.toLowerCase() === "true"
       : true,
     msalTokenTimeout: process.env[EnvVars.MSAL_TOKEN_TIMEOUT]
       ? parseInt(process.env[EnvVars.MSAL_TOKEN_TIMEOUT]!)
       : 30000,
+    msalTokenScopes: process.env[EnvVars.MSAL_TOKEN_SCOPES]
+      ?.split(",")
+      .map((scope) => scope.trim())
+      .filter(Boolean),
+    lockTimeout: process.env[EnvVars.LOCK_TIMEOUT]
+      ? parseInt(process.env[EnvVars.LOCK_TIMEOUT]!)
+      : undefined,
+    app: process.env[EnvVars.APP],
+    stateScope: process.env[EnvVars.STATE_SCOPE] as
+      | "user"
+      | "origin"
+      | undefined,
+    warmupUrls: process.env[EnvVars.WARMUP_URLS]
+      ?.split(",")
+      .map((url) => url.trim())
+      .filter(Boolean),
+    tokenRefresh: process.env[EnvVars.TOKEN_REFRESH]
+      ? process.env[EnvVars.TOKEN_REFRESH]!.toLowerCase() === "true"
+      : undefined,
+    verifySession:
+      process.env[EnvVars.VERIFY_SESSION]?.toLowerCase() === "true"
+        ? true
+        : undefined,
+    totp: loadTotpConfigFromEnv(),
+    encryption: loadEncryptionConfigFromEnv(),
+    browser: process.env[EnvVars.BROWSER] as BrowserName | undefined,
+    browserChannel: process.env[EnvVars.BROWSER_CHANNEL],
+    launchOptions: parseJsonFromEnv(EnvVars.LAUNCH_OPTIONS),
+    contextOptions: parseJsonFromEnv(EnvVars.CONTEXT_OPTIONS),
+    connect: process.env[EnvVars.CONNECT_WS_ENDPOINT]
+      ? {
+          wsEndpoint: process.env[EnvVars.CONNECT_WS_ENDPOINT]!,
+          protocol: process.env[EnvVars.CONNECT_PROTOCOL] as
+            | "playwright"
+            | "cdp"
+            | undefined,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Parse a JSON object from an environment variable
+ */
+function parseJsonFromEnv<T>(name: string): T | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${name} must contain valid JSON: ${message}`);
+  }
+}
+
+/**
+ * Load the certauth relay settings from environment variables
+ */
+function loadCertAuthRelayConfigFromEnv(): CertAuthRelayConfig | undefined {
+  const proxy = process.env[EnvVars.CERTAUTH_PROXY];
+  const caFile = process.env[EnvVars.CA_FILE];
+  const timeout = process.env[EnvVars.CERTAUTH_TIMEOUT];
+  if (!proxy && !caFile && !timeout) {
+    return undefined;
+  }
+
+  return {
+    proxy: proxy === "direct" ? false : proxy ? { server: proxy } : undefined,
+    caFile,
+    timeout: timeout ? parseInt(timeout) : undefined,
+  };
+}
+
+/**
+ * Load TOTP seed configuration from environment variables
+ * The seed location is interpreted according to the selected provider.
+ */
+function loadTotpConfigFromEnv(): TotpConfig | undefined {
+  const secret = process.env[EnvVars.TOTP_SECRET];
+  if (!secret) {
+    return undefined;
+  }
+
+  const credentialProvider = (process.env[EnvVars.TOTP_PROVIDER] ||
+    "environment") as CredentialProviderType;
+
+  return {
+    credentialProvider,
+    providerConfig: loadSecretProviderConfig(credentialProvider, secret),
+  };
+}
+
+/**
+ * Load storage state encryption key configuration from environment variables
+ * The key location is interpreted according to the selected provider.
+ */
+function loadEncryptionConfigFromEnv():
+  | StorageStateEncryptionConfig
+  | undefined {
+  const key = process.env[EnvVars.ENCRYPTION_KEY];
+  if (!key) {
+    return undefined;
+  }
+
+  const credentialProvider = (process.env[EnvVars.ENCRYPTION_KEY_PROVIDER] ||
+    "environment") as CredentialProviderType;
+
+  return {
+    credentialProvider,
+    providerConfig: loadSecretProviderConfig(credentialProvider, key),
   };
 }
 
+/**
+ * Build provider configuration for a secret given only its location
+ * (variable name, file path, secret name, Vault "path#field" or command as
+ * JSON array depending on the provider)
+ */
+function loadSecretProviderConfig(
+  credentialProvider: CredentialProviderType,
+  location: string
+): ProviderConfig {
+  switch (credentialProvider) {
+    case "environment":
+      return { variableName: location };
+    case "local-file":
+      return { filePath: location };
+    case "azure-keyvault":
+      return {
+        keyVaultEndpoint: process.env[EnvVars.KEYVAULT_ENDPOINT] || "",
+        secretName: location,
+      };
+    case "github-secrets":
+      return {
+        repository: process.env[EnvVars.GITHUB_REPOSITORY] || "",
+        secretName: location,
+        token: process.env[EnvVars.GITHUB_TOKEN],
+      };
+    case "hashicorp-vault": {
+      const [secretPath, field] = location.split("#");
+      return {
+        ...loadHashiCorpVaultConnectionFromEnv(),
+        secretPath,
+        field: field || undefined,
+      };
+    }
+    case "exec": {
+      const [command, ...args] = parseCommand(location);
+      return {
+        command,
+        args,
+        env: parseListFromEnv(EnvVars.EXEC_ENV),
+        timeout: process.env[EnvVars.EXEC_TIMEOUT]
+          ? parseInt(process.env[EnvVars.EXEC_TIMEOUT]!)
+          : undefined,
+      };
+    }
+    default:
+      throw new Error(`Unsupported credential provider: ${credentialProvider}`);
+  }
+}
+
 /**
  * Load provider-specific configuration from environment variables
  */
-function loadProviderConfigFromEnv(
+export function loadProviderConfigFromEnv(
   providerType: CredentialProviderType
 ): ProviderConfig {
   switch (providerType) {
@@ -60,6 +264,12 @@ function loadProviderConfigFromEnv(
       return loadEnvironmentConfigFromEnv();
     case "github-secrets":
       return loadGitHubSecretsConfigFromEnv();
+    case "hashicorp-vault":
+      return loadHashiCorpVaultConfigFromEnv();
+    case "exec":
+      return loadExecConfigFromEnv();
+    case "chain":
+      return loadChainConfigFromEnv();
     default:
       throw new Error(`Unsupported credential provider: ${providerType}`);
   }
@@ -80,9 +290,11 @@ function loadAzureKeyVaultConfigFromEnv(): AzureKeyVaultConfig {
     );
   }
 
+  const cloud = process.env[EnvVars.CLOUD] as CloudName | undefined;
   return {
     keyVaultEndpoint,
     secretName,
+    authorityHost: cloud ? getCloudConfig(cloud).authorityHost : undefined,
   };
 }
 
@@ -98,6 +310,7 @@ function loadLocalFileConfigFromEnv(): LocalFileConfig {
   return {
     filePath,
     certificatePassword: process.env[EnvVars.CERTIFICATE_PASSWORD],
+    keyFilePath: process.env[EnvVars.LOCAL_KEY_FILE_PATH],
   };
 }
 
@@ -112,7 +325,10 @@ function loadEnvironmentConfigFromEnv(): EnvironmentConfig {
 
   return {
     variableName,
-    passwordVariableName: process.env[EnvVars.CERTIFICATE_PASSWORD],
+    passwordVariableName: process.env[EnvVars.CERTIFICATE_PASSWORD]
+      ? EnvVars.CERTIFICATE_PASSWORD
+      : undefined,
+    keyVariableName: process.env[EnvVars.ENV_KEY_VARIABLE_NAME],
   };
 }
 
@@ -135,9 +351,254 @@ function loadGitHubSecretsConfigFromEnv(): GitHubSecretsConfig {
     repository,
     secretName,
     token: process.env[EnvVars.GITHUB_TOKEN],
+    passwordSecretName: process.env[EnvVars.CERTIFICATE_PASSWORD]
+      ? EnvVars.CERTIFICATE_PASSWORD
+      : undefined,
+  };
+}
+
+function loadHashiCorpVaultConfigFromEnv(): HashiCorpVaultConfig {
+  const secretPath = process.env[EnvVars.VAULT_SECRET_PATH];
+
+  if (!secretPath) {
+    throw new Error(
+      `${EnvVars.VAULT_SECRET_PATH} environment variable is required for HashiCorp Vault provider`
+    );
+  }
+
+  return {
+    ...loadHashiCorpVaultConnectionFromEnv(),
+    secretPath,
+    field: process.env[EnvVars.VAULT_FIELD],
+    passwordField: process.env[EnvVars.VAULT_PASSWORD_FIELD],
+  };
+}
+
+/**
+ * Load the Vault address, mount, namespace and auth shared by all secrets
+ * read from HashiCorp Vault, falling back to Vault's own VAULT_* variables
+ */
+function loadHashiCorpVaultConnectionFromEnv(): Omit<
+  HashiCorpVaultConfig,
+  "secretPath"
+> {
+  const address = process.env[EnvVars.VAULT_ADDR] || process.env.VAULT_ADDR;
+
+  if (!address) {
+    throw new Error(
+      `${EnvVars.VAULT_ADDR} (or VAULT_ADDR) environment variable is required for HashiCorp Vault provider`
+    );
+  }
+
+  const kvVersion = process.env[EnvVars.VAULT_KV_VERSION];
+  return {
+    address,
+    mountPath: process.env[EnvVars.VAULT_MOUNT],
+    kvVersion: kvVersion ? (parseInt(kvVersion) as 1 | 2) : undefined,
+    namespace:
+      process.env[EnvVars.VAULT_NAMESPACE] || process.env.VAULT_NAMESPACE,
+    auth: loadHashiCorpVaultAuthFromEnv(),
+    caCertPath: process.env[EnvVars.VAULT_CACERT] || process.env.VAULT_CACERT,
   };
 }
 
+/**
+ * Load the Vault auth method from environment variables
+ * Without an explicit method, AppRole is used when a role ID is set and JWT
+ * when a JWT role is set; otherwise the token from VAULT_TOKEN.
+ */
+function loadHashiCorpVaultAuthFromEnv(): HashiCorpVaultAuth {
+  const roleId = process.env[EnvVars.VAULT_ROLE_ID];
+  const jwtRole = process.env[EnvVars.VAULT_JWT_ROLE];
+  const mountPath = process.env[EnvVars.VAULT_AUTH_MOUNT];
+  const method =
+    process.env[EnvVars.VAULT_AUTH_METHOD] ||
+    (roleId ? "approle" : jwtRole ? "jwt" : "token");
+
+  switch (method) {
+    case "token":
+      return {
+        method,
+        token: process.env[EnvVars.VAULT_TOKEN] || process.env.VAULT_TOKEN,
+      };
+    case "approle":
+      if (!roleId) {
+        throw new Error(
+          `${EnvVars.VAULT_ROLE_ID} environment variable is required for Vault AppRole auth`
+        );
+      }
+      return {
+        method,
+        roleId,
+        secretId: process.env[EnvVars.VAULT_SECRET_ID],
+        mountPath,
+      };
+    case "jwt":
+      if (!jwtRole) {
+        throw new Error(
+          `${EnvVars.VAULT_JWT_ROLE} environment variable is required for Vault JWT auth`
+        );
+      }
+      return {
+        method,
+        role: jwtRole,
+        jwt: process.env[EnvVars.VAULT_JWT],
+        mountPath,
+      };
+    default:
+      throw new Error(
+        `Invalid ${EnvVars.VAULT_AUTH_METHOD}: ${method}. Use token, approle or jwt.`
+      );
+  }
+}
+
+function loadExecConfigFromEnv(): ExecConfig {
+  const command = process.env[EnvVars.EXEC_COMMAND];
+
+  if (!command) {
+    throw new Error(
+      `${EnvVars.EXEC_COMMAND} environment variable is required for exec provider`
+    );
+  }
+
+  const args = parseJsonFromEnv<string[]>(EnvVars.EXEC_ARGS);
+  if (args !== undefined && !Array.isArray(args)) {
+    throw new Error(`${EnvVars.EXEC_ARGS} must be a JSON array of strings`);
+  }
+
+  return {
+    command,
+    args,
+    outputFormat: process.env[EnvVars.EXEC_OUTPUT_FORMAT] as
+      | ExecConfig["outputFormat"]
+      | undefined,
+    certificatePassword: process.env[EnvVars.CERTIFICATE_PASSWORD],
+    env: parseListFromEnv(EnvVars.EXEC_ENV),
+    timeout: process.env[EnvVars.EXEC_TIMEOUT]
+      ? parseInt(process.env[EnvVars.EXEC_TIMEOUT]!)
+      : undefined,
+  };
+}
+
+function loadChainConfigFromEnv(): ChainConfig {
+  const providers = parseListFromEnv(EnvVars.CHAIN_PROVIDERS);
+
+  if (!providers?.length) {
+    throw new Error(
+      `${EnvVars.CHAIN_PROVIDERS} environment variable is required for chain provider`
+    );
+  }
+  if (providers.includes("chain")) {
+    throw new Error(`${EnvVars.CHAIN_PROVIDERS} cannot include chain`);
+  }
+
+  // Each link reads its own environment variables when it is tried
+  return {
+    providers: providers.map((credentialProvider) => ({
+      credentialProvider: credentialProvider as CredentialProviderType,
+    })),
+  };
+}
+
+/**
+ * Parse a command given as a JSON array, e.g. `["pass", "show", "user"]`,
+ * or as a single executable without arguments
+ */
+function parseCommand(value: string): string[] {
+  if (!value.trim().startsWith("[")) {
+    return [value];
+  }
+
+  let command: unknown;
+  try {
+    command = JSON.parse(value);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid command JSON array: ${message}`);
+  }
+  if (
+    !Array.isArray(command) ||
+    command.length === 0 ||
+    command.some((part) => typeof part !== "string")
+  ) {
+    throw new Error("Command must be a non-empty JSON array of strings");
+  }
+  return command;
+}
+
+/**
+ * Parse a comma-separated list from an environment variable
+ */
+function parseListFromEnv(name: string): string[] | undefined {
+  return process.env[name]
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check that a provider chain has at least one link, each with a supported
+ * provider type other than another chain
+ */
+export function validateChainLinks(chain: ChainConfig): void {
+  if (!Array.isArray(chain.providers) || chain.providers.length === 0) {
+    throw new Error("Provider chain requires at least one provider");
+  }
+
+  chain.providers.forEach((link, index) => {
+    if (!link.credentialProvider) {
+      throw new Error(`Provider chain link ${index + 1} has no provider type`);
+    }
+    const name = link.name || link.credentialProvider;
+    if (link.credentialProvider === "chain") {
+      throw new Error(`Provider chain link '${name}' cannot be another chain`);
+    }
+    if (!CREDENTIAL_PROVIDER_TYPES.includes(link.credentialProvider)) {
+      throw new Error(
+        `Provider chain link '${name}' has an unsupported provider type: ${link.credentialProvider}`
+      );
+    }
+  });
+}
+
+/**
+ * Check the links of a provider chain and load the configuration of links
+ * that read it from environment variables
+ *
+ * A link whose environment variables are missing is left without
+ * configuration, as it may only be meant for another environment (it fails
+ * over to the next link when tried). At least one link must be usable.
+ * @returns The provider type and configuration of each link
+ */
+function resolveChainLinks(chain: ChainConfig): ChainLink[] {
+  validateChainLinks(chain);
+
+  const failures: string[] = [];
+  const links = chain.providers.map((link): ChainLink => {
+    if (link.providerConfig) {
+      return [link.credentialProvider, link.providerConfig];
+    }
+
+    try {
+      return [
+        link.credentialProvider,
+        loadProviderConfigFromEnv(link.credentialProvider),
+      ];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`'${link.name || link.credentialProvider}': ${message}`);
+      return [link.credentialProvider, undefined];
+    }
+  });
+
+  if (failures.length === links.length) {
+    throw new Error(
+      `No provider chain link is configured:\n  ${failures.join("\n  ")}`
+    );
+  }
+  return links;
+}
+
 /**
  * Validate configuration
  */
@@ -158,6 +619,61 @@ export function validateConfig(config: MsAuthConfig): void {
     throw new Error("Provider configuration is required");
   }
 
+  const chainLinks =
+    config.credentialProvider === "chain"
+      ? resolveChainLinks(config.providerConfig as ChainConfig)
+      : [];
+
+  if (config.cloud) {
+    const cloud = getCloudConfig(config.cloud);
+    const keyVaults: [
+      CredentialProviderType | undefined,
+      ProviderConfig | undefined
+    ][] = [
+      [config.credentialProvider, config.providerConfig],
+      [config.totp?.credentialProvider, config.totp?.providerConfig],
+      [
+        config.encryption?.credentialProvider,
+        config.encryption?.providerConfig,
+      ],
+      ...chainLinks,
+    ];
+    for (const [provider, providerConfig] of keyVaults) {
+      const endpoint =
+        provider === "azure-keyvault" &&
+        (providerConfig as AzureKeyVaultConfig | undefined)?.keyVaultEndpoint;
+      if (endpoint && !isKeyVaultInCloud(endpoint, cloud)) {
+        throw new Error(
+          `KeyVault endpoint ${endpoint} is not in the configured cloud; expected a *.${cloud.keyVaultDnsSuffix} endpoint`
+        );
+      }
+    }
+  }
+
+  if (
+    config.browser &&
+    !["chromium", "firefox", "webkit"].includes(config.browser)
+  ) {
+    throw new Error(
+      `Invalid browser: ${config.browser}. Use chromium, firefox or webkit.`
+    );
+  }
+
+  if (
+    config.certificateMode &&
+    !["auto", "client-certificates", "route"].includes(config.certificateMode)
+  ) {
+    throw new Error(
+      `Invalid certificate mode: ${config.certificateMode}. Use auto, client-certificates or route.`
+    );
+  }
+
+  if (config.stateScope && !["user", "origin"].includes(config.stateScope)) {
+    throw new Error(
+      `Invalid state scope: ${config.stateScope}. Use user or origin.`
+    );
+  }
+
   // Validate email format
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   if (!emailRegex.test(config.email)) {
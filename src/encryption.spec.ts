@@ -0,0 +1,97 @@
+import { test, expect } from "@playwright/test";
+import {
+  decryptStorageState,
+  encryptStorageState,
+  isEncryptedStorageState,
+} from "./encryption";
+import type { StorageState } from "./storageState";
+
+const KEY = "correct horse battery staple";
+
+const STATE: StorageState = {
+  cookies: [
+    {
+      name: "ESTSAUTH",
+      value: "secret-session-cookie",
+      domain: ".login.microsoftonline.com",
+      path: "/",
+      expires: -1,
+      httpOnly: true,
+      secure: true,
+      sameSite: "None",
+    },
+  ],
+  origins: [
+    {
+      origin: "https://app.contoso.com",
+      localStorage: [{ name: "msal.token", value: "access-token" }],
+    },
+  ],
+};
+
+/**
+ * Flip one bit of a base64 field
+ */
+function tamper(base64: string): string {
+  const bytes = Buffer.from(base64, "base64");
+  bytes[0] ^= 0x01;
+  return bytes.toString("base64");
+}
+
+test.describe("storage state encryption", () => {
+  test("round-trips a storage state", async () => {
+    const encrypted = await encryptStorageState(STATE, KEY);
+
+    expect(isEncryptedStorageState(encrypted)).toBe(true);
+    expect(JSON.stringify(encrypted)).not.toContain("secret-session-cookie");
+    expect(await decryptStorageState(encrypted, KEY)).toEqual(STATE);
+  });
+
+  test("uses a fresh salt and IV for every encryption", async () => {
+    const first = await encryptStorageState(STATE, KEY);
+    const second = await encryptStorageState(STATE, KEY);
+
+    expect(second.salt).not.toBe(first.salt);
+    expect(second.iv).not.toBe(first.iv);
+    expect(second.data).not.toBe(first.data);
+  });
+
+  test("rejects a wrong key", async () => {
+    const encrypted = await encryptStorageState(STATE, KEY);
+
+    await expect(decryptStorageState(encrypted, "wrong key")).rejects.toThrow(
+      "Failed to decrypt storage state: wrong encryption key or corrupted file"
+    );
+  });
+
+  for (const field of ["data", "authTag", "iv", "salt"] as const) {
+    test(`rejects a tampered ${field}`, async () => {
+      const encrypted = await encryptStorageState(STATE, KEY);
+
+      await expect(
+        decryptStorageState(
+          { ...encrypted, [field]: tamper(encrypted[field]) },
+          KEY
+        )
+      ).rejects.toThrow("Failed to decrypt storage state");
+    });
+  }
+
+  test("rejects an unsupported envelope", async () => {
+    const encrypted = await encryptStorageState(STATE, KEY);
+
+    await expect(
+      decryptStorageState(
+        { ...encrypted, algorithm: "aes-128-cbc" as "aes-256-gcm" },
+        KEY
+      )
+    ).rejects.toThrow(
+      "Unsupported storage state encryption: aes-128-cbc/scrypt"
+    );
+  });
+
+  test("does not take a plain storage state for an encrypted one", () => {
+    expect(isEncryptedStorageState(STATE)).toBe(false);
+    expect(isEncryptedStorageState(null)).toBe(false);
+  });
+});
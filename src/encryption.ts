@@ -0,0 +1,117 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+} from "node:crypto";
+import type { StorageState } from "./storageState";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/** Storage state encrypted with AES-256-GCM, as written to disk */
+export interface EncryptedStorageState {
+  /** Envelope format version */
+  msAuthEncrypted: 1;
+
+  /** Cipher used for the payload */
+  algorithm: typeof ALGORITHM;
+
+  /** Key derivation function applied to the configured key */
+  kdf: "scrypt";
+
+  /** Base64 scrypt salt */
+  salt: string;
+
+  /** Base64 GCM initialization vector */
+  iv: string;
+
+  /** Base64 GCM authentication tag */
+  authTag: string;
+
+  /** Base64 encrypted storage state JSON */
+  data: string;
+}
+
+/**
+ * Check whether parsed storage state file contents are encrypted
+ */
+export function isEncryptedStorageState(
+  value: unknown
+): value is EncryptedStorageState {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as EncryptedStorageState).msAuthEncrypted === 1
+  );
+}
+
+/**
+ * Encrypt a storage state with a key (any string; stretched with scrypt)
+ */
+export async function encryptStorageState(
+  state: StorageState,
+  key: string
+): Promise<EncryptedStorageState> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, await deriveKey(key, salt), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(state), "utf-8"),
+    cipher.final(),
+  ]);
+
+  return {
+    msAuthEncrypted: 1,
+    algorithm: ALGORITHM,
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Decrypt a storage state written by `encryptStorageState`
+ * Throws when the key is wrong or the file has been tampered with.
+ */
+export async function decryptStorageState(
+  encrypted: EncryptedStorageState,
+  key: string
+): Promise<StorageState> {
+  if (encrypted.algorithm !== ALGORITHM || encrypted.kdf !== "scrypt") {
+    throw new Error(
+      `Unsupported storage state encryption: ${encrypted.algorithm}/${encrypted.kdf}`
+    );
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    await deriveKey(key, Buffer.from(encrypted.salt, "base64")),
+    Buffer.from(encrypted.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(encrypted.authTag, "base64"));
+
+  try {
+    const json = Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+    return JSON.parse(json);
+  } catch {
+    throw new Error(
+      "Failed to decrypt storage state: wrong encryption key or corrupted file"
+    );
+  }
+}
+
+function deriveKey(key: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(key, salt, KEY_LENGTH, (error, derivedKey) =>
+      error ? reject(error) : resolve(derivedKey)
+    );
+  });
+}
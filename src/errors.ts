@@ -0,0 +1,238 @@
+/**
+ * Error types thrown by playwright-ms-auth
+ */
+
+import type { CertificateInfo } from "./certificate";
+
+/** Diagnostic metadata scraped from an Entra error page */
+export interface EntraErrorDetails {
+  /** AADSTS error code, e.g. "AADSTS50126" */
+  code?: string;
+
+  /** Error message shown by Entra */
+  message?: string;
+
+  /** Correlation ID from the "More details" panel */
+  correlationId?: string;
+
+  /** Trace (request) ID from the "More details" panel */
+  traceId?: string;
+
+  /** Timestamp from the "More details" panel */
+  timestamp?: string;
+
+  /** URL of the page the error was shown on */
+  url?: string;
+}
+
+/**
+ * Base class for all errors thrown by playwright-ms-auth
+ */
+export class MsAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Timed out waiting for another process to finish authenticating
+ */
+export class LockTimeoutError extends MsAuthError {
+  constructor(readonly lockPath: string, timeout: number) {
+    super(
+      `Timed out after ${timeout}ms waiting for lock '${lockPath}'. ` +
+        `Delete the file if no other authentication is running.`
+    );
+  }
+}
+
+/**
+ * Every link of a chained credential provider failed
+ */
+export class CredentialChainError extends MsAuthError {
+  constructor(
+    /** Name and error message of each link, in the order they were tried */
+    readonly failures: { link: string; message: string }[]
+  ) {
+    super(
+      `All ${failures.length} credential providers in the chain failed:\n` +
+        failures
+          .map(
+            ({ link, message }, index) =>
+              `  ${index + 1}. ${link}: ${message.replace(/\n/g, "\n     ")}`
+          )
+          .join("\n")
+    );
+  }
+}
+
+/**
+ * User certificate failed the check before signing in: expired, not yet
+ * valid, or issued to another user
+ */
+export class InvalidCertificateError extends MsAuthError {
+  constructor(
+    message: string,
+    /** Email of the user the certificate was retrieved for */
+    readonly email: string,
+    /** Details of the rejected certificate */
+    readonly certificate: CertificateInfo
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Base class for sign-in failures reported by Microsoft Entra
+ */
+export class EntraAuthError extends MsAuthError {
+  constructor(
+    message: string,
+    /** Email of the user that failed to sign in */
+    readonly email: string,
+    /** Metadata scraped from the Entra error page */
+    readonly details: EntraErrorDetails = {}
+  ) {
+    super(formatMessage(message, details));
+  }
+
+  /** AADSTS error code, if Entra reported one */
+  get code(): string | undefined {
+    return this.details.code;
+  }
+
+  /** Correlation ID to look up in the Entra sign-in logs */
+  get correlationId(): string | undefined {
+    return this.details.correlationId;
+  }
+
+  /** Trace ID to look up in the Entra sign-in logs */
+  get traceId(): string | undefined {
+    return this.details.traceId;
+  }
+
+  /** Time the error occurred, as reported by Entra */
+  get timestamp(): string | undefined {
+    return this.details.timestamp;
+  }
+}
+
+/** Wrong password or unknown user */
+export class InvalidCredentialsError extends EntraAuthError {}
+
+/** Account locked or disabled - retrying will not help */
+export class AccountLockedError extends EntraAuthError {}
+
+/** Password expired and must be changed */
+export class PasswordExpiredError extends EntraAuthError {}
+
+/** Sign-in blocked by a Conditional Access policy */
+export class ConditionalAccessBlockedError extends EntraAuthError {}
+
+/** Certificate rejected during certificate-based authentication */
+export class CertificateRejectedError extends EntraAuthError {}
+
+/** MFA is required but cannot be satisfied with the configured credentials */
+export class MfaRequiredError extends EntraAuthError {}
+
+/** Every generated authenticator app code was rejected */
+export class TotpCodeRejectedError extends EntraAuthError {
+  constructor(email: string, attempts: number, details?: EntraErrorDetails) {
+    super(
+      `Verification code rejected for ${email} after ${attempts} attempt(s). ` +
+        `Check the TOTP seed and the system clock.`,
+      email,
+      details
+    );
+  }
+}
+
+type EntraAuthErrorClass = new (
+  message: string,
+  email: string,
+  details?: EntraErrorDetails
+) => EntraAuthError;
+
+/**
+ * Known AADSTS codes and the error class they map to
+ * See https://learn.microsoft.com/en-us/entra/identity-platform/reference-error-codes
+ */
+const AADSTS_ERROR_CLASSES: Record<string, EntraAuthErrorClass> = {
+  AADSTS50034: InvalidCredentialsError, // User account does not exist
+  AADSTS50126: InvalidCredentialsError, // Invalid username or password
+  AADSTS50053: AccountLockedError, // Locked out / too many attempts
+  AADSTS50057: AccountLockedError, // Account disabled
+  AADSTS50055: PasswordExpiredError, // Password expired
+  AADSTS50144: PasswordExpiredError, // Active Directory password expired
+  AADSTS50072: MfaRequiredError, // MFA enrollment required
+  AADSTS50074: MfaRequiredError, // Strong authentication required
+  AADSTS50076: MfaRequiredError, // MFA required by policy
+  AADSTS50079: MfaRequiredError, // MFA registration required
+  AADSTS50158: MfaRequiredError, // External security challenge not satisfied
+  AADSTS50097: ConditionalAccessBlockedError, // Device authentication required
+  AADSTS53000: ConditionalAccessBlockedError, // Device not compliant
+  AADSTS53001: ConditionalAccessBlockedError, // Device not domain joined
+  AADSTS53002: ConditionalAccessBlockedError, // Application not approved
+  AADSTS53003: ConditionalAccessBlockedError, // Blocked by Conditional Access
+  AADSTS53004: ConditionalAccessBlockedError, // MFA registration blocked
+};
+
+/**
+ * Create the error matching an Entra failure
+ * Known AADSTS codes take precedence over the fallback class chosen from
+ * the page the failure happened on.
+ */
+export function createEntraError(
+  message: string,
+  email: string,
+  details: EntraErrorDetails,
+  fallback: EntraAuthErrorClass = EntraAuthError
+): EntraAuthError {
+  const ErrorClass =
+    (details.code && AADSTS_ERROR_CLASSES[details.code]) || fallback;
+  return new ErrorClass(message, email, details);
+}
+
+/**
+ * Extract AADSTS code, correlation ID, trace ID and timestamp from error page text
+ */
+export function parseEntraErrorText(text: string): EntraErrorDetails {
+  const details: EntraErrorDetails = {};
+  const guid = "([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})";
+
+  const code = text.match(/AADSTS(\d{5,7})(?::\s*([^\r\n]+))?/);
+  if (code) {
+    details.code = `AADSTS${code[1]}`;
+    if (code[2]) details.message = code[2].trim();
+  }
+
+  const correlationId = text.match(
+    new RegExp(`Correlation ID:?\\s*${guid}`, "i")
+  );
+  if (correlationId) details.correlationId = correlationId[1];
+
+  const traceId = text.match(
+    new RegExp(`(?:Trace|Request) ID:?\\s*${guid}`, "i")
+  );
+  if (traceId) details.traceId = traceId[1];
+
+  const timestamp = text.match(/Timestamp:?\s*(\d{4}-\d{2}-\d{2}T[\d:.]+Z?)/i);
+  if (timestamp) details.timestamp = timestamp[1];
+
+  return details;
+}
+
+/**
+ * Append diagnostic metadata to an error message
+ */
+function formatMessage(message: string, details: EntraErrorDetails): string {
+  const parts = [
+    details.code,
+    details.correlationId && `correlation ID: ${details.correlationId}`,
+    details.traceId && `trace ID: ${details.traceId}`,
+    details.timestamp && `timestamp: ${details.timestamp}`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? `${message} [${parts.join(", ")}]` : message;
+}
@@ -7,12 +7,35 @@
 
 export * from "./types";
 export * from "./config";
+export * from "./clouds";
 export * from "./authenticate";
+export * from "./apiRequest";
 export * from "./certAuth";
+export * from "./certificate";
+export * from "./proxy";
+export * from "./totp";
+export * from "./loginFlow";
+export * from "./errors";
+export * from "./browser";
+export * from "./multiUser";
+export * from "./lock";
 export * from "./utils";
+export * from "./storageState";
+export * from "./msalCache";
+export * from "./tokenRefresh";
+export * from "./sessionStorage";
+export * from "./encryption";
+export * from "./manifest";
+export * from "./sessionProbe";
 export * from "./providers";
 
 // Re-export commonly used functions
-export { authenticate, loadStorageState } from "./authenticate";
+export {
+  authenticate,
+  authenticateContext,
+  authenticatePage,
+  loadStorageState,
+  loadStorageStateObject,
+} from "./authenticate";
 export { loadConfigFromEnv, validateConfig } from "./config";
 export { CredentialProviderFactory } from "./providers";
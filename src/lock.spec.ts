@@ -0,0 +1,157 @@
+import { test, expect } from "@playwright/test";
+import { spawnSync } from "node:child_process";
+import { mkdtemp, readFile, rm, utimes, writeFile } from "node:fs/promises";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { acquireFileLock, withFileLock } from "./lock";
+import { LockTimeoutError } from "./errors";
+
+let dir: string;
+let lockPath: string;
+
+test.beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "ms-auth-lock-"));
+  lockPath = join(dir, "state.json.lock");
+});
+
+test.afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Write a lock file as another process would
+ */
+async function writeLock(pid: number, ageMs = 0): Promise<void> {
+  await writeFile(
+    lockPath,
+    JSON.stringify({ pid, hostname: hostname(), createdAt: Date.now() })
+  );
+  const mtime = new Date(Date.now() - ageMs);
+  await utimes(lockPath, mtime, mtime);
+}
+
+/**
+ * Get the PID of a process that has exited
+ */
+function getDeadPid(): number {
+  const child = spawnSync(process.execPath, ["-e", ""]);
+  return child.pid!;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test.describe("withFileLock", () => {
+  test("runs concurrent callers one at a time", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const order: string[] = [];
+    const run = (name: string) =>
+      withFileLock(lockPath, async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        order.push(`${name} start`);
+        await sleep(300);
+        order.push(`${name} end`);
+        active--;
+        return name;
+      });
+
+    const results = await Promise.all([run("a"), run("b")]);
+
+    expect(results).toEqual(["a", "b"]);
+    expect(maxActive).toBe(1);
+    expect(order.map((entry) => entry.split(" ")[1])).toEqual([
+      "start",
+      "end",
+      "start",
+      "end",
+    ]);
+  });
+
+  test("removes the lock file after the function throws", async () => {
+    await expect(
+      withFileLock(lockPath, async () => {
+        throw new Error("login failed");
+      })
+    ).rejects.toThrow("login failed");
+
+    await expect(readFile(lockPath)).rejects.toMatchObject({ code: "ENOENT" });
+  });
+});
+
+test.describe("acquireFileLock", () => {
+  test("takes over a lock whose process is gone", async () => {
+    await writeLock(getDeadPid());
+
+    const release = await acquireFileLock(lockPath, { timeout: 2000 });
+
+    const owner = JSON.parse(await readFile(lockPath, "utf-8"));
+    expect(owner.pid).toBe(process.pid);
+    await release();
+  });
+
+  test("takes over a lock without a recent heartbeat", async () => {
+    // A live process, but the lock has not been touched for a minute
+    await writeLock(process.ppid, 60000);
+
+    const release = await acquireFileLock(lockPath, {
+      timeout: 2000,
+      staleTimeout: 30000,
+    });
+
+    const owner = JSON.parse(await readFile(lockPath, "utf-8"));
+    expect(owner.pid).toBe(process.pid);
+    await release();
+  });
+
+  test("throws LockTimeoutError while another live process holds the lock", async () => {
+    await writeLock(process.ppid);
+
+    const error = await acquireFileLock(lockPath, { timeout: 1000 }).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(LockTimeoutError);
+    expect((error as LockTimeoutError).lockPath).toBe(lockPath);
+    // The held lock is left alone
+    expect(JSON.parse(await readFile(lockPath, "utf-8")).pid).toBe(
+      process.ppid
+    );
+  });
+
+  test("keeps a slow holder's lock fresh so waiters do not take it over", async () => {
+    const staleTimeout = 1500;
+    const release = await acquireFileLock(lockPath, { staleTimeout });
+
+    const waiter = acquireFileLock(lockPath, {
+      timeout: staleTimeout * 2,
+      staleTimeout,
+    }).catch((e: unknown) => e);
+
+    expect(await waiter).toBeInstanceOf(LockTimeoutError);
+    await release();
+  });
+
+  test("hands the lock to one waiter at a time when it is taken over", async () => {
+    await writeLock(getDeadPid());
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        withFileLock(
+          lockPath,
+          async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await sleep(100);
+            active--;
+          },
+          { timeout: 5000 }
+        )
+      )
+    );
+
+    expect(maxActive).toBe(1);
+  });
+});
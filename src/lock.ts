@@ -0,0 +1,234 @@
+import { randomBytes } from "node:crypto";
+import {
+  link,
+  open,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  utimes,
+} from "node:fs/promises";
+import { hostname } from "node:os";
+import { dirname } from "node:path";
+import { LockTimeoutError } from "./errors";
+import { ensureDirExists, log } from "./utils";
+
+/** Default time to wait for another process to finish (5 minutes) */
+const DEFAULT_LOCK_TIMEOUT = 5 * 60 * 1000;
+
+/** Default time without a heartbeat after which a lock is considered abandoned (10 minutes) */
+const DEFAULT_STALE_LOCK_TIMEOUT = 10 * 60 * 1000;
+
+const LOCK_POLL_INTERVAL = 500;
+
+/** Options for cross-process file locks */
+export interface FileLockOptions {
+  /** Maximum time to wait for the lock in milliseconds (default: 5 minutes) */
+  timeout?: number;
+
+  /**
+   * Time in milliseconds without a heartbeat after which a held lock is
+   * treated as abandoned (default: 10 minutes). The holder touches the lock
+   * file every third of this time.
+   */
+  staleTimeout?: number;
+}
+
+/** Contents of a lock file */
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  createdAt: number;
+}
+
+/**
+ * Run a function while holding a cross-process lock file
+ * Other processes calling this with the same path wait until the lock is released.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const release = await acquireFileLock(lockPath, options);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Acquire a lock file, waiting for the current owner if necessary
+ * @returns Function releasing the lock
+ */
+export async function acquireFileLock(
+  lockPath: string,
+  options: FileLockOptions = {}
+): Promise<() => Promise<void>> {
+  const timeout = options.timeout ?? DEFAULT_LOCK_TIMEOUT;
+  const staleTimeout = options.staleTimeout ?? DEFAULT_STALE_LOCK_TIMEOUT;
+  const deadline = Date.now() + timeout;
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: hostname(),
+    createdAt: Date.now(),
+  };
+
+  await ensureDirExists(dirname(lockPath));
+  let waitLogged = false;
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.writeFile(JSON.stringify(owner));
+      await handle.close();
+      log(`[MsAuth] Acquired lock ${lockPath}`);
+
+      // Keep the lock fresh so waiters do not take over from a slow login
+      const heartbeat = setInterval(
+        () => void touchFileLock(lockPath, owner),
+        Math.max(staleTimeout / 3, LOCK_POLL_INTERVAL)
+      );
+      heartbeat.unref();
+      return async () => {
+        clearInterval(heartbeat);
+        await releaseFileLock(lockPath, owner);
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const staleLock = await getStaleLock(lockPath, staleTimeout);
+    if (staleLock) {
+      await removeStaleLock(lockPath, staleLock);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(lockPath, timeout);
+    }
+
+    if (!waitLogged) {
+      log(`[MsAuth] Waiting for another process holding ${lockPath}`);
+      waitLogged = true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL));
+  }
+}
+
+/**
+ * Remove the lock file if it is still owned by this process
+ */
+async function releaseFileLock(
+  lockPath: string,
+  owner: LockOwner
+): Promise<void> {
+  const current = await readLockOwner(lockPath);
+  if (
+    current &&
+    current.pid === owner.pid &&
+    current.createdAt === owner.createdAt
+  ) {
+    await unlink(lockPath).catch(() => {});
+    log(`[MsAuth] Released lock ${lockPath}`);
+  }
+}
+
+/**
+ * Refresh the lock file's modification time if it is still owned by this process
+ */
+async function touchFileLock(
+  lockPath: string,
+  owner: LockOwner
+): Promise<void> {
+  const current = await readLockOwner(lockPath);
+  if (
+    current &&
+    current.pid === owner.pid &&
+    current.createdAt === owner.createdAt
+  ) {
+    const now = new Date();
+    await utimes(lockPath, now, now).catch(() => {});
+  }
+}
+
+/**
+ * A lock is stale when its owner process is gone or its heartbeat is older
+ * than the stale timeout
+ * @returns The identity of the stale lock, or undefined when it is held
+ */
+async function getStaleLock(
+  lockPath: string,
+  staleTimeout: number
+): Promise<string | undefined> {
+  const stats = await stat(lockPath).catch(() => null);
+  if (!stats) {
+    return undefined;
+  }
+  const owner = await readLockOwner(lockPath);
+
+  // Unreadable or half-written lock files are judged by their age only
+  const isStale =
+    Date.now() - stats.mtimeMs > staleTimeout ||
+    (!!owner && owner.hostname === hostname() && !isProcessAlive(owner.pid));
+  return isStale ? getLockIdentity(owner, stats.mtimeMs) : undefined;
+}
+
+/**
+ * Remove a stale lock without deleting a lock another waiter created after
+ * the stale check: the file is moved aside first and only deleted if it is
+ * still the lock judged stale
+ */
+async function removeStaleLock(
+  lockPath: string,
+  staleLock: string
+): Promise<void> {
+  const asidePath = `${lockPath}.${randomBytes(6).toString("hex")}.stale`;
+  try {
+    await rename(lockPath, asidePath);
+  } catch {
+    return; // Already removed or taken over
+  }
+
+  const stats = await stat(asidePath).catch(() => null);
+  const owner = await readLockOwner(asidePath);
+  if (stats && getLockIdentity(owner, stats.mtimeMs) !== staleLock) {
+    // A live lock was moved - put it back unless yet another lock exists
+    await link(asidePath, lockPath).catch(() => {});
+  } else {
+    log(`[MsAuth] ##[warning]Removed stale lock ${lockPath}`);
+  }
+  await unlink(asidePath).catch(() => {});
+}
+
+/**
+ * Identify a lock file by its owner, or by its modification time when the
+ * owner cannot be read
+ */
+function getLockIdentity(owner: LockOwner | null, mtimeMs: number): string {
+  return owner
+    ? `${owner.hostname}:${owner.pid}:${owner.createdAt}`
+    : `unreadable:${mtimeMs}`;
+}
+
+async function readLockOwner(lockPath: string): Promise<LockOwner | null> {
+  try {
+    const owner = JSON.parse(await readFile(lockPath, "utf-8"));
+    return typeof owner.pid === "number" ? owner : null;
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
@@ -0,0 +1,785 @@
+import type { Page } from "@playwright/test";
+import type {
+  CertAuthRelayConfig,
+  CertificateCredential,
+  LoginFlowContext,
+  LoginPageHandler,
+  LoginPageKind,
+  MsAuthConfig,
+  TotpOptions,
+} from "./types";
+import {
+  addCertAuthRoute,
+  getCertAuthOptions,
+  waitForCertAuthResponse,
+} from "./certAuth";
+import { getCertificateCredential } from "./certificate";
+import { generateTotp } from "./totp";
+import {
+  createEntraError,
+  parseEntraErrorText,
+  AccountLockedError,
+  CertificateRejectedError,
+  InvalidCredentialsError,
+  MfaRequiredError,
+  PasswordExpiredError,
+  TotpCodeRejectedError,
+} from "./errors";
+import type { EntraErrorDetails } from "./errors";
+import { log } from "./utils";
+import { createHash } from "node:crypto";
+
+/** Default maximum number of handled pages before the flow is aborted */
+const DEFAULT_MAX_LOGIN_STEPS = 25;
+
+/** Number of times the same page may be handled in a row before the flow is considered stuck */
+const MAX_REPEATED_PAGE = 3;
+
+/** Time to wait for a recognizable page after each step */
+const PAGE_DETECTION_TIMEOUT = 30000;
+
+/** Poll interval while classifying the current page */
+const PAGE_DETECTION_INTERVAL = 500;
+
+/** Time to wait for an intermediate host (e.g. a federated IdP) to redirect */
+const FEDERATION_REDIRECT_TIMEOUT = 15000;
+
+/** Time to wait for Entra to accept or reject a verification code */
+const TOTP_VERIFICATION_TIMEOUT = 30000;
+
+/**
+ * Run the login state machine until a handler reports completion.
+ * Each iteration classifies the current page and dispatches it to the
+ * matching handler. Custom handlers from `config.pageHandlers` take
+ * precedence over built-in handlers of the same kind.
+ */
+export async function runLoginFlow(
+  page: Page,
+  context: LoginFlowContext
+): Promise<void> {
+  const handlers = getLoginPageHandlers(context.config);
+  const maxSteps = context.config.maxLoginSteps ?? DEFAULT_MAX_LOGIN_STEPS;
+
+  let lastPage = "";
+  let repeats = 0;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const handler = await detectLoginPage(page, context, handlers);
+    if (!handler) {
+      throw new Error(
+        `Unrecognized login page at ${page.url()} after ${
+          context.history.length
+        } step(s)`
+      );
+    }
+
+    const pageKey = `${handler.kind}|${page.url()}`;
+    repeats = pageKey === lastPage ? repeats + 1 : 1;
+    lastPage = pageKey;
+    if (repeats > MAX_REPEATED_PAGE) {
+      throw new Error(
+        `Login flow is stuck on '${handler.kind}' page (${page.url()}). ` +
+          `Steps: ${context.history.join(" -> ")}`
+      );
+    }
+
+    log(`[MsAuth] Step ${step}: handling '${handler.kind}' page`);
+    context.history.push(handler.kind);
+
+    const result = await handler.handle(page, context);
+    if (result === "done") {
+      log(`[MsAuth] Login flow completed: ${context.history.join(" -> ")}`);
+      return;
+    }
+  }
+
+  throw new Error(
+    `Login flow did not complete within ${maxSteps} steps. ` +
+      `Steps: ${context.history.join(" -> ")}`
+  );
+}
+
+/**
+ * Classify the current login page
+ * @returns The page kind, or undefined if no handler recognizes the page
+ */
+export async function classifyLoginPage(
+  page: Page,
+  context: LoginFlowContext,
+  timeout: number = PAGE_DETECTION_TIMEOUT
+): Promise<LoginPageKind | string | undefined> {
+  const handlers = getLoginPageHandlers(context.config);
+  const handler = await detectLoginPage(page, context, handlers, timeout);
+  return handler?.kind;
+}
+
+/**
+ * Get the handlers used by the login flow in detection order
+ */
+export function getLoginPageHandlers(config: MsAuthConfig): LoginPageHandler[] {
+  const custom = config.pageHandlers ?? [];
+  const overridden = new Set(custom.map((handler) => handler.kind));
+  return [
+    ...custom,
+    ...builtInHandlers.filter((handler) => !overridden.has(handler.kind)),
+  ];
+}
+
+/**
+ * Poll handlers until one of them recognizes the current page
+ */
+async function detectLoginPage(
+  page: Page,
+  context: LoginFlowContext,
+  handlers: LoginPageHandler[],
+  timeout: number = PAGE_DETECTION_TIMEOUT
+): Promise<LoginPageHandler | undefined> {
+  const deadline = Date.now() + timeout;
+
+  do {
+    for (const handler of handlers) {
+      if (await handler.detect(page, context).catch(() => false)) {
+        return handler;
+      }
+    }
+    await page.waitForTimeout(PAGE_DETECTION_INTERVAL);
+  } while (Date.now() < deadline);
+
+  return undefined;
+}
+
+/**
+ * Scrape error metadata from the current Entra page
+ * Expands the "More details" panel when present to reveal correlation and trace IDs.
+ */
+export async function extractEntraErrorDetails(
+  page: Page
+): Promise<EntraErrorDetails> {
+  const moreDetails = page
+    .locator("#idBtn_Details, #debugDetailsHeader")
+    .or(page.getByRole("button", { name: /more details/i }));
+  if (
+    await moreDetails
+      .first()
+      .isVisible()
+      .catch(() => false)
+  ) {
+    await moreDetails
+      .first()
+      .click({ timeout: 5000 })
+      .catch(() => {});
+  }
+
+  const pageText = await page
+    .locator("body")
+    .innerText({ timeout: 5000 })
+    .catch(() => "");
+  const details = parseEntraErrorText(pageText);
+
+  if (!details.message) {
+    const message = await page
+      .locator("#service_exception_message, #exceptionMessageContainer")
+      .first()
+      .textContent({ timeout: 1000 })
+      .catch(() => null);
+    if (message?.trim()) details.message = message.trim();
+  }
+
+  return { ...details, url: page.url() };
+}
+
+/**
+ * Check whether a hostname belongs to the Entra login endpoint (including certauth hosts)
+ */
+function isLoginHost(hostname: string, loginEndpoint: string): boolean {
+  return hostname === loginEndpoint || hostname.endsWith(`.${loginEndpoint}`);
+}
+
+/**
+ * Check whether a URL is on the target origin or the same base domain
+ * (e.g. *.test.powerapps.com)
+ */
+function isOnTargetDomain(url: string, targetUrl: string): boolean {
+  const baseDomain = (hostname: string) =>
+    hostname.split(".").slice(-3).join(".");
+  const target = new URL(targetUrl);
+  return (
+    url.startsWith(target.origin) ||
+    baseDomain(new URL(url).hostname) === baseDomain(target.hostname)
+  );
+}
+
+const errorHandler: LoginPageHandler = {
+  kind: "error",
+  detect: async (page) =>
+    page
+      .locator("#service_exception_message, #exceptionMessageContainer")
+      .or(
+        page.getByRole("heading", {
+          name: /Sorry, but we.re having trouble|We couldn't sign you in/i,
+        })
+      )
+      .first()
+      .isVisible(),
+  handle: async (page, context) => {
+    const details = await extractEntraErrorDetails(page);
+    log(
+      `[MsAuth] ##[error]Entra error page: ${details.code ?? ""} ${
+        details.message ?? page.url()
+      }`
+    );
+    throw createEntraError(
+      `Authentication failed for ${context.config.email}: ${
+        details.message || "Entra returned an error page"
+      }`,
+      context.config.email,
+      details
+    );
+  },
+};
+
+const doneHandler: LoginPageHandler = {
+  kind: "done",
+  detect: async (page, context) => {
+    const hostname = new URL(page.url()).hostname;
+    return (
+      !isLoginHost(hostname, context.loginEndpoint) &&
+      isOnTargetDomain(page.url(), context.targetUrl)
+    );
+  },
+  handle: async (page, context) => {
+    // Give the app a moment to settle on the exact target URL
+    await page.waitForURL(context.targetUrl, { timeout: 5000 }).catch(() => {});
+    log(`[MsAuth] Redirected to ${page.url()} (authentication successful)`);
+    return "done";
+  },
+};
+
+const federationRedirectHandler: LoginPageHandler = {
+  kind: "federation-redirect",
+  detect: async (page, context) => {
+    const url = new URL(page.url());
+    return (
+      url.protocol.startsWith("http") &&
+      !isLoginHost(url.hostname, context.loginEndpoint) &&
+      !isOnTargetDomain(page.url(), context.targetUrl)
+    );
+  },
+  handle: async (page) => {
+    const hostname = new URL(page.url()).hostname;
+    log(`[MsAuth] On intermediate host ${hostname}, waiting for redirect`);
+    const redirected = await page
+      .waitForURL((url) => url.hostname !== hostname, {
+        timeout: FEDERATION_REDIRECT_TIMEOUT,
+      })
+      .then(() => true)
+      .catch(() => false);
+
+    // A page that stays put is most likely a federated sign-in form (ADFS,
+    // Okta, ...) waiting for input, which needs a custom page handler
+    if (!redirected) {
+      throw new Error(
+        `Login flow is stuck on intermediate host ${hostname} (${page.url()}): ` +
+          `no redirect within ${FEDERATION_REDIRECT_TIMEOUT}ms. ` +
+          `Handle federated sign-in pages with config.pageHandlers.`
+      );
+    }
+  },
+};
+
+const mfaHandler: LoginPageHandler = {
+  kind: "mfa",
+  detect: async (page) =>
+    page
+      .locator(
+        'input[name="otc"], #idDiv_SAOTCAS_Title, #idDiv_SAOTCS_Title, #idDiv_SAOTCC_Title'
+      )
+      .or(
+        page.getByRole("heading", {
+          name: /verify your identity|enter code|approve sign in request/i,
+        })
+      )
+      .first()
+      .isVisible(),
+  handle: async (page, context) => {
+    if (!context.totp) {
+      throw new MfaRequiredError(
+        `MFA is required for ${context.config.email} but no TOTP seed is configured`,
+        context.config.email,
+        await extractEntraErrorDetails(page)
+      );
+    }
+    await handleTotpMfa(
+      page,
+      context.totp.secret,
+      context.totp.options,
+      context.config.totp?.maxSkewSteps ?? 1,
+      context.config.email
+    );
+  },
+};
+
+const kmsiHandler: LoginPageHandler = {
+  kind: "kmsi",
+  detect: async (page) =>
+    page
+      .locator("#KmsiCheckboxField, #kmsiTitle")
+      .or(page.getByRole("heading", { name: /stay signed in/i }))
+      .first()
+      .isVisible(),
+  handle: async (page) => handleStaySignedIn(page),
+};
+
+const consentHandler: LoginPageHandler = {
+  kind: "consent",
+  detect: async (page) =>
+    page.getByRole("heading", { name: /permissions requested/i }).isVisible(),
+  handle: async (page) => {
+    log(`[MsAuth] Consent prompt detected - accepting requested permissions`);
+    await page.getByRole("button", { name: /^accept$/i }).click();
+    await page.waitForLoadState("domcontentloaded").catch(() => {});
+  },
+};
+
+const accountPickerHandler: LoginPageHandler = {
+  kind: "account-picker",
+  detect: async (page) =>
+    page
+      .locator("#tilesHolder")
+      .or(page.getByRole("heading", { name: /pick an account/i }))
+      .first()
+      .isVisible(),
+  handle: async (page, context) => {
+    const accountTile = page
+      .locator("#tilesHolder")
+      .getByText(context.config.email, { exact: false });
+
+    if (
+      await accountTile
+        .first()
+        .isVisible()
+        .catch(() => false)
+    ) {
+      log(`[MsAuth] Picking account ${context.config.email}`);
+      await accountTile.first().click();
+    } else {
+      log(`[MsAuth] Account not listed - choosing 'Use another account'`);
+      await page
+        .locator("#otherTile")
+        .or(page.getByText(/use another account/i))
+        .first()
+        .click();
+    }
+    await page
+      .locator("#tilesHolder")
+      .waitFor({ state: "hidden", timeout: 10000 })
+      .catch(() => {});
+  },
+};
+
+const passwordHandler: LoginPageHandler = {
+  kind: "password",
+  detect: async (page) => page.locator('input[name="passwd"]').isVisible(),
+  handle: async (page, context) => {
+    if (context.credential.type !== "password") {
+      throw new Error(
+        `Password page shown for ${context.config.email} but the credential is a ${context.credential.type}`
+      );
+    }
+    await handlePasswordAuth(
+      page,
+      context.credential.value as string,
+      context.config.email
+    );
+  },
+};
+
+const emailHandler: LoginPageHandler = {
+  kind: "email",
+  detect: async (page) => page.locator('input[name="loginfmt"]').isVisible(),
+  handle: async (page, context) => {
+    const { config, credential } = context;
+    log(`[MsAuth] Entering email: ${config.email}`);
+    await page.getByRole("textbox", { name: "email" }).fill(config.email);
+    await page.getByRole("button", { name: "next" }).click();
+    await page
+      .locator('input[name="loginfmt"]')
+      .waitFor({ state: "hidden", timeout: 10000 })
+      .catch(() => {});
+
+    // Certificate auth starts straight after the username is submitted
+    if (credential.type === "certificate") {
+      await handleCertificateAuth(
+        page,
+        getCertificateCredential(credential),
+        context.authEndpoint,
+        config.email,
+        context.clientCertificates ?? false,
+        {
+          ...config.certAuthRelay,
+          proxy: config.certAuthRelay?.proxy ?? config.launchOptions?.proxy,
+        }
+      );
+    }
+  },
+};
+
+/** Built-in handlers in detection order */
+const builtInHandlers: LoginPageHandler[] = [
+  errorHandler,
+  doneHandler,
+  federationRedirectHandler,
+  mfaHandler,
+  kmsiHandler,
+  consentHandler,
+  accountPickerHandler,
+  passwordHandler,
+  emailHandler,
+];
+
+/**
+ * Handle certificate-based authentication
+ */
+async function handleCertificateAuth(
+  page: Page,
+  certificate: CertificateCredential,
+  endpoint: string,
+  email: string,
+  clientCertificates: boolean,
+  relay: CertAuthRelayConfig
+): Promise<void> {
+  log(
+    `[MsAuth] Using certificate authentication (${
+      clientCertificates ? "context client certificate" : "route"
+    })`
+  );
+
+  // Log certificate fingerprint for debugging
+  const material =
+    certificate.format === "pfx"
+      ? certificate.pfx
+      : Buffer.from(certificate.cert);
+  const fingerprint = createHash("sha256")
+    .update(new Uint8Array(material))
+    .digest("hex");
+  log(`[MsAuth] Certificate fingerprint: ${fingerprint}`);
+  log(
+    `[MsAuth] Certificate format: ${certificate.format.toUpperCase()}, ${
+      material.byteLength
+    } bytes${certificate.passphrase ? ", with passphrase" : ""}`
+  );
+
+  // The context presents the certificate itself; otherwise intercept the request
+  if (!clientCertificates) {
+    await addCertAuthRoute(
+      page,
+      getCertAuthOptions(certificate, endpoint, relay)
+    );
+  }
+
+  // Handle account type selection if needed
+  const workOrSchoolButton = page.getByRole("button", {
+    name: "Work or school account",
+  });
+  if (
+    await workOrSchoolButton.isVisible({ timeout: 5000 }).catch(() => false)
+  ) {
+    log(`[MsAuth] Selecting 'Work or school account'`);
+    await workOrSchoolButton.click();
+  }
+
+  // Handle certificate selection if needed
+  const certButton = page
+    .getByRole("link", { name: "certificate" })
+    .or(page.getByRole("button", { name: "certificate" }));
+
+  if (await certButton.isVisible({ timeout: 5000 }).catch(() => false)) {
+    log(`[MsAuth] Selecting certificate authentication`);
+    await certButton.click();
+  }
+
+  // Wait for certificate authentication to complete
+  log(`[MsAuth] Waiting for certificate authentication response`);
+  try {
+    await waitForCertAuthResponse(page, endpoint, 60000);
+  } catch (timeoutError) {
+    log(
+      `[MsAuth] ##[warning]Certificate authentication response not detected - this may be okay if auth flow changed`
+    );
+    // Continue anyway - the cert auth might have succeeded without the expected response
+  }
+
+  // Check for certificate validation errors
+  const certFailure = page.getByRole("heading", {
+    name: /Certificate validation failed|We couldn't sign you in with a certificate/i,
+  });
+
+  if (await certFailure.isVisible({ timeout: 5000 }).catch(() => false)) {
+    const failureText = await certFailure.textContent();
+    log(`[MsAuth] ##[error]Certificate authentication failed: ${failureText}`);
+
+    const details = await extractEntraErrorDetails(page);
+    throw createEntraError(
+      `Certificate authentication failed for ${email}. Check Entra sign-in logs.`,
+      email,
+      { message: failureText?.trim() || undefined, ...details },
+      CertificateRejectedError
+    );
+  }
+
+  log(`[MsAuth] Certificate authentication successful`);
+
+  // Wait a bit for any post-auth UI to load
+  await page.waitForTimeout(2000);
+}
+
+/**
+ * Handle password-based authentication
+ */
+async function handlePasswordAuth(
+  page: Page,
+  password: string,
+  email: string
+): Promise<void> {
+  log(`[MsAuth] Using password authentication`);
+
+  // Wait for password field
+  await page
+    .getByRole("textbox", { name: "password" })
+    .waitFor({ timeout: 10000 });
+
+  // Enter password
+  log(`[MsAuth] Entering password`);
+  await page.getByRole("textbox", { name: "password" }).fill(password);
+  await page
+    .getByRole("button", { name: "submit" })
+    .or(page.locator('input[type="submit"]'))
+    .click();
+
+  // Check for password errors
+  await page.waitForTimeout(1000);
+  const passwordError = page.locator("#passwordError, .has-error");
+  if (await passwordError.isVisible().catch(() => false)) {
+    const errorText = await passwordError.textContent().catch(() => "");
+    log(`[MsAuth] ##[error]Password authentication failed: ${errorText}`);
+    const details = await extractEntraErrorDetails(page);
+    throw createEntraError(
+      `Password authentication failed for ${email}. Please verify the password is correct.`,
+      email,
+      { message: errorText?.trim() || undefined, ...details },
+      /locked/i.test(errorText ?? "")
+        ? AccountLockedError
+        : InvalidCredentialsError
+    );
+  }
+
+  // Expired passwords lead to the "Update your password" page
+  const updatePassword = page.getByRole("heading", {
+    name: /update your password|password has expired/i,
+  });
+  if (await updatePassword.isVisible().catch(() => false)) {
+    log(`[MsAuth] ##[error]Password for ${email} has expired`);
+    throw new PasswordExpiredError(
+      `Password for ${email} has expired and must be changed`,
+      email,
+      { url: page.url() }
+    );
+  }
+
+  log(`[MsAuth] Password authentication successful`);
+
+  // Wait for the password page to go away before the next page is classified
+  await page
+    .getByRole("textbox", { name: "password" })
+    .waitFor({ state: "hidden", timeout: 10000 })
+    .catch(() => {});
+}
+
+/**
+ * Handle authenticator app (TOTP) MFA prompts
+ * Switches away from push notifications when needed and retries adjacent
+ * time steps to tolerate clock skew.
+ */
+async function handleTotpMfa(
+  page: Page,
+  secret: string,
+  options: TotpOptions,
+  maxSkewSteps: number,
+  email: string
+): Promise<void> {
+  log(`[MsAuth] Checking for MFA prompt...`);
+
+  const codeInput = page
+    .locator('input[name="otc"]')
+    .or(page.getByRole("textbox", { name: /^(code|enter code)$/i }));
+  const pushPrompt = page
+    .locator("#idDiv_SAOTCAS_Title")
+    .or(page.getByRole("heading", { name: /approve sign in request/i }));
+  const proofPicker = page
+    .locator("#idDiv_SAOTCS_Title")
+    .or(page.getByRole("heading", { name: /verify your identity/i }));
+
+  const isMfaPrompt = await codeInput
+    .or(pushPrompt)
+    .or(proofPicker)
+    .first()
+    .waitFor({ state: "visible", timeout: 10000 })
+    .then(() => true)
+    .catch(() => false);
+
+  if (!isMfaPrompt) {
+    log(`[MsAuth] No MFA prompt detected`);
+    return;
+  }
+
+  // Push notification is the default method - ask for another way to sign in
+  if (await pushPrompt.isVisible().catch(() => false)) {
+    log(`[MsAuth] Push notification prompt detected - switching method`);
+    await page
+      .locator("#signInAnotherWay")
+      .or(page.getByRole("link", { name: /can't use|another way/i }))
+      .first()
+      .click();
+    await proofPicker
+      .first()
+      .waitFor({ state: "visible", timeout: 10000 })
+      .catch(() => {});
+  }
+
+  if (await proofPicker.isVisible().catch(() => false)) {
+    log(`[MsAuth] Selecting 'Use a verification code'`);
+    await page
+      .locator('[data-value="PhoneAppOTP"]')
+      .or(page.getByRole("button", { name: /use a verification code/i }))
+      .or(page.getByText(/use a verification code/i))
+      .first()
+      .click();
+  }
+
+  await codeInput.waitFor({ state: "visible", timeout: 15000 });
+
+  const period = options.period ?? 30;
+  const skewOffsets = [0];
+  for (let step = 1; step <= maxSkewSteps; step++) {
+    skewOffsets.push(step, -step);
+  }
+
+  const codeError = page
+    .locator("#idSpan_SAOTCC_Error_OTC")
+    .or(page.getByText(/didn't enter the expected verification code/i));
+
+  for (const offset of skewOffsets) {
+    const code = generateTotp(
+      secret,
+      options,
+      Date.now() + offset * period * 1000
+    );
+    log(`[MsAuth] Entering verification code (time step offset ${offset})`);
+    await codeInput.fill(code);
+
+    // The rejection of an earlier code stays on screen until it is re-rendered
+    const staleError = (await codeError.first().isVisible())
+      ? await codeError
+          .first()
+          .elementHandle({ timeout: 1000 })
+          .catch(() => null)
+      : null;
+    const codeUrl = page.url();
+
+    await page
+      .locator("#idSubmit_SAOTCC_Continue")
+      .or(page.getByRole("button", { name: /^verify$/i }))
+      .first()
+      .click();
+
+    const outcome = await firstOutcome(
+      {
+        accepted: Promise.race([
+          page.waitForURL((url) => url.toString() !== codeUrl, {
+            timeout: TOTP_VERIFICATION_TIMEOUT,
+          }),
+          codeInput.first().waitFor({
+            state: "hidden",
+            timeout: TOTP_VERIFICATION_TIMEOUT,
+          }),
+        ]),
+        rejected: (async () => {
+          await staleError?.waitForElementState("hidden", {
+            timeout: TOTP_VERIFICATION_TIMEOUT,
+          });
+          await codeError.first().waitFor({
+            state: "visible",
+            timeout: TOTP_VERIFICATION_TIMEOUT,
+          });
+        })(),
+      },
+      TOTP_VERIFICATION_TIMEOUT
+    );
+    await staleError?.dispose().catch(() => {});
+
+    if (outcome === "accepted") {
+      log(`[MsAuth] Verification code accepted`);
+      return;
+    }
+    if (outcome === "timeout") {
+      throw new Error(
+        `Entra neither accepted nor rejected the verification code within ${TOTP_VERIFICATION_TIMEOUT}ms`
+      );
+    }
+    log(`[MsAuth] ##[warning]Verification code rejected`);
+  }
+
+  throw new TotpCodeRejectedError(
+    email,
+    skewOffsets.length,
+    await extractEntraErrorDetails(page)
+  );
+}
+
+/**
+ * Wait for the first of several outcomes to happen
+ * Outcomes whose wait fails are ignored.
+ * @returns The name of the first outcome, or "timeout"
+ */
+async function firstOutcome<T extends string>(
+  outcomes: Record<T, Promise<unknown>>,
+  timeout: number
+): Promise<T | "timeout"> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      ...(Object.entries(outcomes) as [T, Promise<unknown>][]).map(
+        ([name, outcome]) =>
+          outcome.then(
+            () => name,
+            () => new Promise<never>(() => {})
+          )
+      ),
+      new Promise<"timeout">((resolve) => {
+        timer = setTimeout(() => resolve("timeout"), timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Handle "Stay signed in?" prompt
+ */
+async function handleStaySignedIn(page: Page): Promise<void> {
+  log(`[MsAuth] 'Stay signed in?' prompt detected - clicking Yes`);
+
+  const yesButton = page.getByRole("button", { name: /^yes$/i });
+  await yesButton.click({ timeout: 5000 }).catch(async () => {
+    log(
+      `[MsAuth] Failed to click Yes button by role, trying alternative selector`
+    );
+    await page.locator('input[type="submit"][value="Yes"]').click();
+  });
+
+  log(`[MsAuth] Clicked 'Yes' on stay signed in prompt`);
+
+  // Wait for navigation after clicking
+  await page.waitForTimeout(2000);
+}
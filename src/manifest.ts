@@ -0,0 +1,288 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { CredentialResult, CredentialType } from "./types";
+import { getStorageStateExpiry, readStorageStateFile } from "./storageState";
+import {
+  getAuthBaseDir,
+  getStorageStatePath,
+  isStorageStateValid,
+  sanitizeEmail,
+} from "./utils";
+
+/** `state-{email}.json` or `state-{email}+{app}.json` (names are sanitized) */
+const STATE_FILE_PATTERN = /^state-([^+]+)(?:\+([^+]+))?\.json$/;
+const MANIFEST_SUFFIX = ".manifest.json";
+
+/**
+ * Per-user key of the credential fingerprints
+ * Kept in the home directory, away from the output directory that CI jobs
+ * often upload or cache together with the manifests.
+ */
+const FINGERPRINT_KEY_FILE = join(".playwright-ms-auth", "fingerprint-key");
+
+/** Metadata recorded next to each saved storage state */
+export interface StorageStateManifest {
+  /** User the state belongs to */
+  email: string;
+
+  /** Application the state is scoped to, if any */
+  app?: string;
+
+  /** URL the user authenticated against */
+  targetUrl: string;
+
+  /** Additional URLs whose localStorage was captured after signing in */
+  warmupUrls?: string[];
+
+  /** Entra login endpoint used */
+  loginEndpoint: string;
+
+  /** Type of credential used to sign in */
+  credentialType: CredentialType;
+
+  /**
+   * Keyed hash of the credential, to spot states created with an old secret
+   * Only comparable between states saved by the same user on the same machine.
+   */
+  credentialFingerprint: string;
+
+  /** When the state was saved (ISO 8601) */
+  createdAt: string;
+
+  /** When the tokens were last renewed without a browser (ISO 8601) */
+  refreshedAt?: string;
+
+  /** Computed session expiry (ISO 8601), if the state holds expiry information */
+  expiresAt?: string;
+
+  /** True when the state file is encrypted */
+  encrypted: boolean;
+
+  /** Version of playwright-ms-auth that saved the state */
+  packageVersion: string;
+}
+
+/** Summary of a saved storage state */
+export interface StorageStateInfo {
+  /** User the state belongs to */
+  email: string;
+
+  /** Application the state is scoped to, if any */
+  app?: string;
+
+  /** Path of the storage state file */
+  storagePath: string;
+
+  /** Manifest, if one was written with the state */
+  manifest?: StorageStateManifest;
+
+  /** When the state was saved */
+  createdAt: Date;
+
+  /** Computed session expiry, if known */
+  expiresAt?: Date;
+
+  /** True when the state can be reused without signing in again */
+  valid: boolean;
+}
+
+/** Options used to work out storage state validity */
+export interface StorageStateQueryOptions {
+  /** Upper bound in hours on state age (default: 24) */
+  storageStateExpiration?: number;
+
+  /** Minutes before the computed expiry at which a state counts as expired (default: 5) */
+  expirySafetyMargin?: number;
+}
+
+/**
+ * Get the manifest path for a storage state file
+ */
+export function getManifestPath(storagePath: string): string {
+  return storagePath.replace(/\.json$/, MANIFEST_SUFFIX);
+}
+
+/**
+ * Hash a credential so states can be traced to it without storing the secret
+ * The HMAC key is random per user and kept outside the output directory, so a
+ * manifest copied on its own (e.g. in a CI artifact) cannot be used to guess
+ * the password offline. Anyone who can read the key file can still test
+ * password guesses against the fingerprint.
+ */
+export function getCredentialFingerprint(credential: CredentialResult): string {
+  const hash = createHmac("sha256", getFingerprintKey())
+    .update(credential.value)
+    .digest("hex");
+  return `hmac-sha256:${hash.slice(0, 16)}`;
+}
+
+/**
+ * Read the fingerprint key, creating it (readable by the owner only) on first use
+ */
+function getFingerprintKey(): Buffer {
+  const keyPath = join(homedir(), FINGERPRINT_KEY_FILE);
+  try {
+    return readFileSync(keyPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+
+  mkdirSync(dirname(keyPath), { recursive: true, mode: 0o700 });
+  const key = randomBytes(32);
+  try {
+    writeFileSync(keyPath, key, { mode: 0o600, flag: "wx" });
+    return key;
+  } catch (error) {
+    // Another worker created the key first
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    return readFileSync(keyPath);
+  }
+}
+
+/**
+ * Write the manifest for a storage state file
+ */
+export async function writeStorageStateManifest(
+  storagePath: string,
+  manifest: StorageStateManifest
+): Promise<void> {
+  await writeFile(
+    getManifestPath(storagePath),
+    JSON.stringify(manifest, null, 2),
+    { mode: 0o600 }
+  );
+}
+
+/**
+ * Read the manifest for a storage state file
+ * @returns The manifest, or undefined when there is none
+ */
+export async function readStorageStateManifest(
+  storagePath: string
+): Promise<StorageStateManifest | undefined> {
+  try {
+    return JSON.parse(await readFile(getManifestPath(storagePath), "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Summarize the storage state saved for a user
+ * @param app - Application the state is scoped to (default: the user-wide state)
+ * @returns The summary, or undefined when no state is saved
+ */
+export async function getStorageStateInfo(
+  email: string,
+  options: StorageStateQueryOptions & { app?: string } = {}
+): Promise<StorageStateInfo | undefined> {
+  return readStorageStateInfo(
+    getStorageStatePath(email, options.app),
+    email,
+    options.app,
+    options
+  );
+}
+
+/**
+ * Summarize every storage state in the output directory
+ */
+export async function listStorageStates(
+  options: StorageStateQueryOptions = {}
+): Promise<StorageStateInfo[]> {
+  const authDir = getAuthBaseDir();
+  const files = await readdir(authDir).catch(() => [] as string[]);
+
+  const states: StorageStateInfo[] = [];
+  for (const file of files.sort()) {
+    const match = file.match(STATE_FILE_PATTERN);
+    if (!match || file.endsWith(MANIFEST_SUFFIX)) continue;
+
+    const info = await readStorageStateInfo(
+      join(authDir, file),
+      match[1],
+      match[2],
+      options
+    );
+    if (info) states.push(info);
+  }
+  return states;
+}
+
+/**
+ * Delete saved storage states and their manifests
+ * @returns The states that were deleted
+ */
+export async function clearStorageStates(
+  options: StorageStateQueryOptions & {
+    /** Only delete the states of this user */
+    email?: string;
+    /** Only delete the states scoped to this application */
+    app?: string;
+    /** Only delete states that are no longer valid */
+    expired?: boolean;
+  } = {}
+): Promise<StorageStateInfo[]> {
+  const states = (await listStorageStates(options)).filter(
+    (state) =>
+      (!options.email ||
+        sanitizeEmail(state.email) === sanitizeEmail(options.email)) &&
+      (!options.app || state.app === options.app) &&
+      (!options.expired || !state.valid)
+  );
+
+  for (const state of states) {
+    await rm(state.storagePath, { force: true });
+    await rm(getManifestPath(state.storagePath), { force: true });
+  }
+  return states;
+}
+
+async function readStorageStateInfo(
+  storagePath: string,
+  email: string,
+  app: string | undefined,
+  options: StorageStateQueryOptions
+): Promise<StorageStateInfo | undefined> {
+  const stats = await stat(storagePath).catch(() => undefined);
+  if (!stats) {
+    return undefined;
+  }
+
+  const manifest = await readStorageStateManifest(storagePath);
+  const expiresAt = manifest?.expiresAt
+    ? new Date(manifest.expiresAt)
+    : await readStorageStateFile(storagePath)
+        .then((state) => getStorageStateExpiry(state).expiresAt)
+        .catch(() => undefined);
+
+  // The manifest expiry also covers encrypted states, which cannot be
+  // inspected without the key
+  let valid: boolean;
+  if (expiresAt) {
+    const maxAgeMs = (options.storageStateExpiration ?? 24) * 60 * 60 * 1000;
+    const marginMs = (options.expirySafetyMargin ?? 5) * 60 * 1000;
+    valid =
+      Date.now() - stats.mtimeMs < maxAgeMs &&
+      expiresAt.getTime() - marginMs > Date.now();
+  } else {
+    valid = await isStorageStateValid(
+      storagePath,
+      options.storageStateExpiration,
+      { safetyMarginMinutes: options.expirySafetyMargin }
+    );
+  }
+
+  return {
+    email: manifest?.email ?? email,
+    app: manifest ? manifest.app : app,
+    storagePath,
+    manifest,
+    createdAt: manifest ? new Date(manifest.createdAt) : stats.mtime,
+    expiresAt,
+    valid,
+  };
+}
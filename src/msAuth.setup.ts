@@ -0,0 +1,37 @@
+/**
+ * Setup test run by the project created with `defineMsAuthSetup()`
+ */
+
+import { test } from "./test";
+import { authenticate } from "./authenticate";
+import { loadConfigFromEnv } from "./config";
+
+/** Time allowed per user login */
+const USER_LOGIN_TIMEOUT = 120000;
+
+test("authenticate Microsoft Entra users", async ({
+  msAuthUsers,
+  msAuthUrl,
+  baseURL,
+}) => {
+  const users = Object.entries(msAuthUsers);
+
+  if (users.length === 0) {
+    const targetUrl = msAuthUrl ?? baseURL;
+    if (!targetUrl) {
+      throw new Error(
+        "No target URL for authentication. Pass url to defineMsAuthSetup() or set baseURL."
+      );
+    }
+    test.setTimeout(USER_LOGIN_TIMEOUT);
+    await authenticate(loadConfigFromEnv(), targetUrl);
+    return;
+  }
+
+  test.setTimeout(users.length * USER_LOGIN_TIMEOUT);
+  for (const [name, user] of users) {
+    await test.step(`authenticate ${name}`, async () => {
+      await authenticate(user, user.targetUrl);
+    });
+  }
+});
@@ -0,0 +1,390 @@
+import type { StorageState } from "./storageState";
+
+/** OpenID Connect scopes MSAL adds to every request; ignored when matching */
+const OIDC_SCOPES = ["openid", "profile", "offline_access", "email"];
+
+/** Browser storage an MSAL cache entry was found in */
+export type MsalStorageLocation = "localStorage" | "sessionStorage";
+
+/** Signed-in account from the MSAL cache */
+export interface MsalAccount {
+  /** `<objectId>.<tenantId>` of the home tenant */
+  homeAccountId: string;
+
+  /** Authority host, e.g. "login.microsoftonline.com" */
+  environment: string;
+
+  /** Tenant ID the account was signed in to */
+  tenantId: string;
+
+  /** Object ID in that tenant */
+  localAccountId: string;
+
+  /** User principal name */
+  username: string;
+
+  /** Display name */
+  name?: string;
+
+  /** Claims of the account's ID token, when one is cached */
+  idTokenClaims?: Record<string, unknown>;
+
+  /** Origin of the app whose cache holds the account */
+  origin: string;
+}
+
+/** Token from the MSAL cache */
+export interface MsalToken {
+  /** Raw token */
+  token: string;
+
+  /** Application (client) ID the token was issued to */
+  clientId: string;
+
+  /** Tenant ID the token was issued by, if recorded */
+  tenantId?: string;
+
+  /** Home account the token belongs to, if recorded */
+  homeAccountId?: string;
+
+  /** Granted scopes (lowercase, as cached by MSAL) */
+  scopes: string[];
+
+  /** Expiry, if recorded */
+  expiresAt?: Date;
+
+  /** Extended expiry (access tokens only), if recorded */
+  extendedExpiresAt?: Date;
+
+  /** Decoded JWT payload; undefined for opaque tokens such as refresh tokens */
+  claims?: Record<string, unknown>;
+
+  /** Origin of the app whose cache holds the token */
+  origin: string;
+
+  /** Browser storage the token was found in */
+  storage: MsalStorageLocation;
+
+  /** Storage key of the cache entry */
+  key: string;
+}
+
+/** Contents of the MSAL browser caches in a storage state */
+export interface MsalCache {
+  accounts: MsalAccount[];
+  idTokens: MsalToken[];
+  accessTokens: MsalToken[];
+  refreshTokens: MsalToken[];
+
+  /**
+   * Number of entries encrypted by msal-browser v4+, which keeps the key in a
+   * session cookie and cannot be read from the saved state
+   */
+  encryptedEntries: number;
+}
+
+/** Criteria for selecting an access token */
+export interface AccessTokenQuery {
+  /**
+   * Required scopes, e.g. ["https://graph.microsoft.com/User.Read"] or
+   * ["https://graph.microsoft.com/.default"]; unqualified scopes such as
+   * "User.Read" match any resource
+   */
+  scopes?: string[];
+
+  /** Application (client) ID the token was issued to */
+  clientId?: string;
+
+  /** Tenant ID the token was issued by */
+  tenantId?: string;
+
+  /** Also return expired tokens (default: false) */
+  includeExpired?: boolean;
+}
+
+/** Raw MSAL cache entry, covering the fields of all known schema versions */
+interface MsalCacheEntry {
+  // msal-browser v2+ credentials
+  credentialType?: string;
+  secret?: string;
+  clientId?: string;
+  realm?: string;
+  target?: string;
+  homeAccountId?: string;
+  environment?: string;
+  expiresOn?: string | number;
+  extendedExpiresOn?: string | number;
+  // msal-browser v2+ accounts
+  authorityType?: string;
+  localAccountId?: string;
+  username?: string;
+  name?: string;
+  idTokenClaims?: Record<string, unknown>;
+  // msal-browser v4+ encrypted entries
+  nonce?: string;
+  data?: string;
+  // msal.js 1.x tokens (the key holds clientId, authority and scopes)
+  accessToken?: string;
+  idToken?: string;
+  expiresIn?: string | number;
+  homeAccountIdentifier?: string;
+}
+
+/**
+ * Parse the MSAL browser caches in a storage state
+ *
+ * Reads localStorage and sessionStorage of every origin and recognizes
+ * msal-browser v2/v3 entries (accounts, ID, access and refresh tokens),
+ * msal.js 1.x token entries, and counts msal-browser v4 encrypted entries.
+ */
+export function parseMsalCache(state: StorageState): MsalCache {
+  const cache: MsalCache = {
+    accounts: [],
+    idTokens: [],
+    accessTokens: [],
+    refreshTokens: [],
+    encryptedEntries: 0,
+  };
+
+  const storages = [
+    ...(state.origins ?? []).map((origin) => ({
+      origin: origin.origin,
+      storage: "localStorage" as const,
+      items: origin.localStorage,
+    })),
+    ...(state.sessionStorage ?? []).map((origin) => ({
+      origin: origin.origin,
+      storage: "sessionStorage" as const,
+      items: origin.sessionStorage,
+    })),
+  ];
+
+  for (const { origin, storage, items } of storages) {
+    for (const { name, value } of items) {
+      const entry = parseEntry(value);
+      if (!entry) continue;
+
+      if (entry.nonce && entry.data) {
+        cache.encryptedEntries++;
+      } else if (entry.credentialType && entry.secret) {
+        addCredential(cache, name, entry, origin, storage);
+      } else if (entry.authorityType && entry.homeAccountId) {
+        cache.accounts.push({
+          homeAccountId: entry.homeAccountId,
+          environment: entry.environment ?? "",
+          tenantId: entry.realm ?? "",
+          localAccountId: entry.localAccountId ?? "",
+          username: entry.username ?? "",
+          name: entry.name,
+          idTokenClaims: entry.idTokenClaims,
+          origin,
+        });
+      } else if (entry.accessToken || entry.idToken) {
+        addLegacyTokens(cache, name, entry, origin, storage);
+      }
+    }
+  }
+
+  // Older msal-browser versions do not store the claims on the account
+  for (const account of cache.accounts) {
+    account.idTokenClaims ??= cache.idTokens.find(
+      (idToken) =>
+        idToken.homeAccountId === account.homeAccountId &&
+        (!idToken.tenantId || idToken.tenantId === account.tenantId)
+    )?.claims;
+  }
+
+  return cache;
+}
+
+/**
+ * Get the accounts signed in to the apps in a storage state
+ */
+export function getMsalAccounts(state: StorageState): MsalAccount[] {
+  return parseMsalCache(state).accounts;
+}
+
+/**
+ * Get a cached access token, e.g. to call Microsoft Graph or Dataverse
+ *
+ * Of the matching tokens the one that expires last is returned.
+ * @throws When no matching (unexpired) access token is cached
+ */
+export function getAccessToken(
+  state: StorageState,
+  query: AccessTokenQuery = {}
+): MsalToken {
+  const cache = parseMsalCache(state);
+  const matching = cache.accessTokens
+    .filter(
+      (token) =>
+        (!query.clientId ||
+          token.clientId.toLowerCase() === query.clientId.toLowerCase()) &&
+        (!query.tenantId ||
+          token.tenantId?.toLowerCase() === query.tenantId.toLowerCase()) &&
+        hasScopes(token.scopes, query.scopes ?? []) &&
+        (query.includeExpired || !isExpired(token))
+    )
+    .sort(
+      (a, b) => (b.expiresAt?.getTime() ?? 0) - (a.expiresAt?.getTime() ?? 0)
+    );
+
+  if (matching.length === 0) {
+    const cached = cache.accessTokens.map((token) => token.scopes.join(" "));
+    throw new Error(
+      `No ${query.includeExpired ? "" : "unexpired "}access token found` +
+        (query.scopes ? ` for scopes '${query.scopes.join(" ")}'` : "") +
+        (cached.length > 0
+          ? `. Cached token scopes: ${cached.join("; ")}`
+          : ". The storage state holds no MSAL access tokens") +
+        (cache.encryptedEntries > 0
+          ? ` (${cache.encryptedEntries} encrypted msal-browser v4 entries skipped)`
+          : "")
+    );
+  }
+  return matching[0];
+}
+
+/**
+ * Decode the payload of a JWT without verifying its signature
+ * @returns The claims, or undefined when the token is not a JWT
+ */
+export function decodeJwt(token: string): Record<string, unknown> | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether every requested scope is covered by the granted scopes
+ */
+function hasScopes(granted: string[], requested: string[]): boolean {
+  return requested
+    .map((scope) => scope.toLowerCase())
+    .filter((scope) => !OIDC_SCOPES.includes(scope))
+    .every((scope) => {
+      if (scope.endsWith("/.default")) {
+        // ".default" asks for every scope consented for the resource
+        const resource = scope.slice(0, -".default".length);
+        return granted.some((grantedScope) =>
+          grantedScope.startsWith(resource)
+        );
+      }
+      return granted.some(
+        (grantedScope) =>
+          grantedScope === scope ||
+          (!scope.includes("/") && grantedScope.endsWith(`/${scope}`))
+      );
+    });
+}
+
+function isExpired(token: MsalToken): boolean {
+  return !!token.expiresAt && token.expiresAt.getTime() <= Date.now();
+}
+
+function addCredential(
+  cache: MsalCache,
+  key: string,
+  entry: MsalCacheEntry,
+  origin: string,
+  storage: MsalStorageLocation
+): void {
+  const token: MsalToken = {
+    token: entry.secret!,
+    clientId: entry.clientId ?? "",
+    tenantId: entry.realm || undefined,
+    homeAccountId: entry.homeAccountId,
+    scopes: entry.target?.toLowerCase().split(" ").filter(Boolean) ?? [],
+    expiresAt: toDate(entry.expiresOn),
+    extendedExpiresAt: toDate(entry.extendedExpiresOn),
+    claims: decodeJwt(entry.secret!),
+    origin,
+    storage,
+    key,
+  };
+
+  const credentialType = entry.credentialType!.toLowerCase();
+  if (credentialType.startsWith("accesstoken")) {
+    cache.accessTokens.push(token);
+  } else if (credentialType === "idtoken") {
+    cache.idTokens.push(token);
+  } else if (credentialType === "refreshtoken") {
+    cache.refreshTokens.push({ ...token, claims: undefined });
+  }
+}
+
+/**
+ * Add tokens from an msal.js 1.x entry, whose key is a JSON object holding
+ * the client ID, authority and scopes
+ */
+function addLegacyTokens(
+  cache: MsalCache,
+  key: string,
+  entry: MsalCacheEntry,
+  origin: string,
+  storage: MsalStorageLocation
+): void {
+  let tokenKey: { clientId?: string; authority?: string; scopes?: string };
+  try {
+    tokenKey = JSON.parse(key);
+  } catch {
+    return;
+  }
+
+  const base = {
+    clientId: tokenKey.clientId ?? "",
+    tenantId: tokenKey.authority?.split("/").filter(Boolean).pop(),
+    homeAccountId: entry.homeAccountIdentifier,
+    scopes: tokenKey.scopes?.toLowerCase().split(" ").filter(Boolean) ?? [],
+    expiresAt: toDate(entry.expiresIn),
+    origin,
+    storage,
+    key,
+  };
+
+  if (entry.accessToken) {
+    cache.accessTokens.push({
+      ...base,
+      token: entry.accessToken,
+      claims: decodeJwt(entry.accessToken),
+    });
+  }
+  if (entry.idToken) {
+    cache.idTokens.push({
+      ...base,
+      token: entry.idToken,
+      claims: decodeJwt(entry.idToken),
+    });
+  }
+}
+
+/**
+ * Parse a storage value as an MSAL cache entry
+ */
+function parseEntry(value: string): MsalCacheEntry | undefined {
+  if (!value.startsWith("{")) {
+    return undefined;
+  }
+  try {
+    const entry = JSON.parse(value);
+    return typeof entry === "object" && entry !== null ? entry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert an MSAL timestamp (seconds since epoch) to a date
+ */
+function toDate(seconds: string | number | undefined): Date | undefined {
+  const value = Number(seconds);
+  return seconds !== undefined && Number.isFinite(value) && value > 0
+    ? new Date(value * 1000)
+    : undefined;
+}
@@ -0,0 +1,147 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type {
+  MsAuthConfig,
+  MsAuthUser,
+  MsAuthUsersConfig,
+  UserAuthResult,
+} from "./types";
+import { authenticate } from "./authenticate";
+import { validateConfig } from "./config";
+import { log } from "./utils";
+
+/** Default number of users authenticated in parallel */
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Load a multi-user configuration from a JSON file
+ */
+export async function loadUsersConfig(
+  filePath: string
+): Promise<MsAuthUsersConfig> {
+  const fullPath = resolve(filePath);
+  log(`[MsAuth] Loading users from '${fullPath}'`);
+
+  let usersConfig: MsAuthUsersConfig;
+  try {
+    usersConfig = JSON.parse(await readFile(fullPath, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read users file '${fullPath}': ${message}`);
+  }
+
+  if (!usersConfig.users || typeof usersConfig.users !== "object") {
+    throw new Error(`Users file '${fullPath}' must contain a 'users' object`);
+  }
+  return usersConfig;
+}
+
+/**
+ * Merge shared defaults into each user and validate the result
+ * @returns Users by name, ready for `authenticate()` or the test fixtures
+ */
+export function resolveUsers(
+  usersConfig: MsAuthUsersConfig
+): Record<string, MsAuthUser> {
+  const users: Record<string, MsAuthUser> = {};
+
+  for (const [name, userConfig] of Object.entries(usersConfig.users)) {
+    const { targetUrls, ...overrides } = userConfig;
+    if (!targetUrls || targetUrls.length === 0) {
+      throw new Error(`User '${name}' has no targetUrls`);
+    }
+
+    const config = { ...usersConfig.defaults, ...overrides } as MsAuthConfig;
+    try {
+      validateConfig(config);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid configuration for user '${name}': ${message}`);
+    }
+
+    users[name] = { ...config, targetUrl: targetUrls[0], targetUrls };
+  }
+
+  return users;
+}
+
+/**
+ * Authenticate every user in parallel, up to the concurrency limit
+ * Failures are reported per user instead of aborting the other logins.
+ */
+export async function authenticateAll(
+  usersConfig: MsAuthUsersConfig,
+  options: {
+    /** Maximum parallel logins (default: usersConfig.concurrency or 4) */
+    concurrency?: number;
+    /** Only authenticate these users */
+    only?: string[];
+  } = {}
+): Promise<UserAuthResult[]> {
+  const users = Object.entries(resolveUsers(usersConfig)).filter(
+    ([name]) => !options.only || options.only.includes(name)
+  );
+  const concurrency = Math.max(
+    1,
+    options.concurrency ?? usersConfig.concurrency ?? DEFAULT_CONCURRENCY
+  );
+
+  log(
+    `[MsAuth] Authenticating ${users.length} user(s) with concurrency ${concurrency}`
+  );
+
+  const results: UserAuthResult[] = new Array(users.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < users.length) {
+      const index = next++;
+      const [name, user] = users[index];
+      results[index] = await authenticateUser(name, user);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, users.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Authenticate one user against each of its target URLs
+ * Origin-scoped states sign in to each target URL separately; otherwise the
+ * user signs in once and the other target URLs are captured as warm-up URLs.
+ */
+async function authenticateUser(
+  name: string,
+  user: MsAuthUser
+): Promise<UserAuthResult> {
+  const started = Date.now();
+  try {
+    const [targetUrl, ...otherUrls] = user.targetUrls ?? [user.targetUrl];
+    if (!user.app && user.stateScope === "origin") {
+      for (const url of [targetUrl, ...otherUrls]) {
+        await authenticate(user, url);
+      }
+    } else {
+      const warmupUrls = [...(user.warmupUrls ?? []), ...otherUrls];
+      await authenticate({ ...user, warmupUrls }, targetUrl);
+    }
+    log(`[MsAuth] User '${name}' authenticated`);
+    return {
+      name,
+      email: user.email,
+      success: true,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    log(`[MsAuth] ##[error]User '${name}' failed to authenticate`);
+    return {
+      name,
+      email: user.email,
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+      durationMs: Date.now() - started,
+    };
+  }
+}
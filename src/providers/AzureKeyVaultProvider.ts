@@ -9,6 +9,11 @@ import {
 import { SecretClient } from "@azure/keyvault-secrets";
 import { CredentialProvider } from "./CredentialProvider";
 import type { AzureKeyVaultConfig, CredentialResult } from "../types";
+import {
+  createCertificateCredential,
+  parsePemCertificate,
+} from "../certificate";
+import { getCloudForKeyVaultEndpoint } from "../clouds";
 import { log } from "../utils";
 
 /**
@@ -47,6 +52,13 @@ export class AzureKeyVaultProvider extends CredentialProvider {
 
   private getTokenCredential(): TokenCredential {
     if (!this.credential) {
+      const config = this.config as AzureKeyVaultConfig;
+      const authorityHost =
+        config.authorityHost ??
+        getCloudForKeyVaultEndpoint(config.keyVaultEndpoint)?.authorityHost;
+      // The developer tool credentials take no authority host and sign in to
+      // the cloud their tool is set to (az cloud set, Connect-AzAccount
+      // -Environment, azd config set cloud.name)
       const credentials: TokenCredential[] = [
         new AzureCliCredential(),
         new AzurePowerShellCredential(),
@@ -58,6 +70,7 @@ export class AzureKeyVaultProvider extends CredentialProvider {
         credentials.push(
           new InteractiveBrowserCredential({
             redirectUri: "http://localhost:8080/",
+            authorityHost,
           })
         );
       }
@@ -132,10 +145,11 @@ export class AzureKeyVaultProvider extends CredentialProvider {
       log(
         `[AzureKeyVaultProvider] Retrieved certificate (${certificate.byteLength} bytes)`
       );
-      return {
-        type: "certificate",
-        value: certificate,
-      };
+      return createCertificateCredential({ format: "pfx", pfx: certificate });
+    } else if (contentType === "application/x-pem-file") {
+      // Certificate (PEM certificate and private key)
+      log(`[AzureKeyVaultProvider] Retrieved PEM certificate`);
+      return createCertificateCredential(parsePemCertificate(secret.value));
     } else {
       // Password (plain text)
       log(
@@ -0,0 +1,70 @@
+import { CredentialProvider } from "./CredentialProvider";
+import { CredentialProviderFactory } from "./CredentialProviderFactory";
+import type {
+  ChainConfig,
+  ChainLinkConfig,
+  CloudConfig,
+  CloudName,
+  CredentialResult,
+} from "../types";
+import { loadProviderConfigFromEnv, validateChainLinks } from "../config";
+import { CredentialChainError } from "../errors";
+import { log } from "../utils";
+
+/**
+ * Chained fallback credential provider
+ * Tries a list of providers in order and returns the first credential found,
+ * e.g. a local file on developer machines, an environment variable in CI and
+ * KeyVault in scheduled pipelines
+ */
+export class ChainProvider extends CredentialProvider {
+  constructor(
+    config: ChainConfig,
+    private readonly options: { cloud?: CloudName | CloudConfig } = {}
+  ) {
+    super(config);
+    this.validateConfig();
+  }
+
+  getProviderName(): string {
+    return "Provider Chain";
+  }
+
+  validateConfig(): void {
+    validateChainLinks(this.config as ChainConfig);
+  }
+
+  async getCredential(): Promise<CredentialResult> {
+    const config = this.config as ChainConfig;
+    const failures: { link: string; message: string }[] = [];
+
+    for (const link of config.providers) {
+      const name = getLinkName(link);
+      try {
+        const provider = CredentialProviderFactory.createProvider(
+          link.credentialProvider,
+          link.providerConfig ??
+            loadProviderConfigFromEnv(link.credentialProvider),
+          this.options
+        );
+        log(`[ChainProvider] Trying '${name}' (${provider.getProviderName()})`);
+        const credential = await provider.getCredential();
+        log(`[ChainProvider] Credential supplied by '${name}'`);
+        return { ...credential, source: name };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`[ChainProvider] '${name}' failed: ${message}`);
+        failures.push({ link: name, message });
+      }
+    }
+
+    throw new CredentialChainError(failures);
+  }
+}
+
+/**
+ * Get the name of a chain link for logs and errors
+ */
+function getLinkName(link: ChainLinkConfig): string {
+  return link.name || link.credentialProvider;
+}
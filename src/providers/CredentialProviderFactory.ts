@@ -3,13 +3,23 @@ import { AzureKeyVaultProvider } from "./AzureKeyVaultProvider";
 import { LocalFileProvider } from "./LocalFileProvider";
 import { EnvironmentProvider } from "./EnvironmentProvider";
 import { GitHubSecretsProvider } from "./GitHubSecretsProvider";
+import { HashiCorpVaultProvider } from "./HashiCorpVaultProvider";
+import { ExecProvider } from "./ExecProvider";
+import { ChainProvider } from "./ChainProvider";
+import { getCloudConfig } from "../clouds";
+import { CREDENTIAL_PROVIDER_TYPES } from "../types";
 import type {
+  CloudConfig,
+  CloudName,
   CredentialProviderType,
   ProviderConfig,
   AzureKeyVaultConfig,
   LocalFileConfig,
   EnvironmentConfig,
   GitHubSecretsConfig,
+  HashiCorpVaultConfig,
+  ExecConfig,
+  ChainConfig,
 } from "../types";
 
 /**
@@ -21,15 +31,27 @@ export class CredentialProviderFactory {
    * Create a credential provider based on type and configuration
    * @param type Provider type
    * @param config Provider-specific configuration
+   * @param options.cloud Microsoft cloud of the user, whose authority host
+   * Key Vault providers sign in to unless their config sets one
    * @returns CredentialProvider instance
    */
   static createProvider(
     type: CredentialProviderType,
-    config: ProviderConfig
+    config: ProviderConfig,
+    options: { cloud?: CloudName | CloudConfig } = {}
   ): CredentialProvider {
     switch (type) {
-      case "azure-keyvault":
-        return new AzureKeyVaultProvider(config as AzureKeyVaultConfig);
+      case "azure-keyvault": {
+        const keyVaultConfig = config as AzureKeyVaultConfig;
+        return new AzureKeyVaultProvider({
+          ...keyVaultConfig,
+          authorityHost:
+            keyVaultConfig.authorityHost ??
+            (options.cloud
+              ? getCloudConfig(options.cloud).authorityHost
+              : undefined),
+        });
+      }
 
       case "local-file":
         return new LocalFileProvider(config as LocalFileConfig);
@@ -40,6 +62,15 @@ export class CredentialProviderFactory {
       case "github-secrets":
         return new GitHubSecretsProvider(config as GitHubSecretsConfig);
 
+      case "hashicorp-vault":
+        return new HashiCorpVaultProvider(config as HashiCorpVaultConfig);
+
+      case "exec":
+        return new ExecProvider(config as ExecConfig);
+
+      case "chain":
+        return new ChainProvider(config as ChainConfig, options);
+
       default:
         throw new Error(`Unsupported credential provider type: ${type}`);
     }
@@ -49,6 +80,6 @@ export class CredentialProviderFactory {
    * Get list of supported provider types
    */
   static getSupportedProviders(): CredentialProviderType[] {
-    return ["azure-keyvault", "local-file", "environment", "github-secrets"];
+    return [...CREDENTIAL_PROVIDER_TYPES];
   }
 }
@@ -1,5 +1,9 @@
 import { CredentialProvider } from "./CredentialProvider";
 import type { EnvironmentConfig, CredentialResult } from "../types";
+import {
+  createCertificateCredential,
+  parseCertificateText,
+} from "../certificate";
 import { log } from "../utils";
 
 /**
@@ -37,21 +41,17 @@ export class EnvironmentProvider extends CredentialProvider {
       );
     }
 
-    // Try to detect if it's a base64 encoded certificate
-    try {
-      const decoded = Buffer.from(value, "base64");
-      // Check if it's a valid DER/PFX certificate (starts with 0x30)
-      if (decoded.length > 100 && decoded[0] === 0x30) {
-        log(
-          `[EnvironmentProvider] Retrieved base64-encoded certificate (${decoded.byteLength} bytes)`
-        );
-        return {
-          type: "certificate",
-          value: decoded,
-        };
-      }
-    } catch {
-      // Not base64 or not a certificate
+    // Detect a PEM or base64-encoded PFX certificate
+    const certificate = parseCertificateText(value, {
+      key: config.keyVariableName && process.env[config.keyVariableName],
+      passphrase:
+        config.passwordVariableName && process.env[config.passwordVariableName],
+    });
+    if (certificate) {
+      log(
+        `[EnvironmentProvider] Retrieved ${certificate.format.toUpperCase()} certificate`
+      );
+      return createCertificateCredential(certificate);
     }
 
     // Default to password
@@ -0,0 +1,138 @@
+import { test, expect } from "@playwright/test";
+import { ExecProvider } from "./ExecProvider";
+import type { ExecConfig } from "../types";
+
+/**
+ * Create a provider running a Node.js script
+ */
+function node(script: string, config: Partial<ExecConfig> = {}): ExecProvider {
+  return new ExecProvider({
+    command: process.execPath,
+    args: ["-e", script],
+    ...config,
+  });
+}
+
+/** Script printing a JSON object */
+const printJson = (value: unknown) =>
+  `process.stdout.write(${JSON.stringify(JSON.stringify(value))})`;
+
+test.describe("ExecProvider", () => {
+  test("reads a password from stdout, trimmed", async () => {
+    const credential = await node(
+      `console.log("  p@ssw0rd  ")`
+    ).getCredential();
+
+    expect(credential).toEqual({ type: "password", value: "p@ssw0rd" });
+  });
+
+  test("reads a password from JSON output", async () => {
+    const credential = await node(printJson({ password: "p@ssw0rd" }), {
+      outputFormat: "json",
+    }).getCredential();
+
+    expect(credential).toEqual({ type: "password", value: "p@ssw0rd" });
+  });
+
+  test("requires exactly one secret field in JSON output", async () => {
+    await expect(
+      node(printJson({ password: "a", cert: "b" }), {
+        outputFormat: "json",
+      }).getCredential()
+    ).rejects.toThrow(
+      "must print exactly one of 'password', 'pfx' or 'cert' (got password, cert)"
+    );
+    await expect(
+      node(printJson({ username: "user" }), {
+        outputFormat: "json",
+      }).getCredential()
+    ).rejects.toThrow(
+      "must print exactly one of 'password', 'pfx' or 'cert' (got none)"
+    );
+  });
+
+  test("rejects non-string fields and invalid JSON without echoing them", async () => {
+    await expect(
+      node(printJson({ password: 1234 }), {
+        outputFormat: "json",
+      }).getCredential()
+    ).rejects.toThrow("must be a string, got number");
+
+    const error = await node(`console.log("{secret-value")`, {
+      outputFormat: "json",
+    })
+      .getCredential()
+      .catch((e: Error) => e);
+    expect((error as Error).message).toMatch(/did not print valid JSON$/);
+    expect((error as Error).message).not.toContain("secret-value");
+  });
+
+  test("reports the exit code and stderr of a failed command", async () => {
+    await expect(
+      node(
+        `process.stderr.write("vault is sealed\\n"); process.exit(3)`
+      ).getCredential()
+    ).rejects.toThrow(/exited with code 3:\nvault is sealed$/);
+  });
+
+  test("reports a command that prints nothing", async () => {
+    await expect(node("").getCredential()).rejects.toThrow("printed no secret");
+  });
+
+  test("reports a command that is not installed", async () => {
+    await expect(
+      new ExecProvider({ command: "ms-auth-no-such-command" }).getCredential()
+    ).rejects.toThrow(
+      "Command 'ms-auth-no-such-command' not found (check PATH)"
+    );
+  });
+
+  test("stops a command that runs past its timeout", async () => {
+    const started = Date.now();
+
+    await expect(
+      node("setTimeout(() => {}, 10000)", { timeout: 500 }).getCredential()
+    ).rejects.toThrow("timed out after 500ms");
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  test("passes only the base and allow-listed environment variables", async () => {
+    const env = { ...process.env };
+    process.env.MS_AUTH_SPEC_ALLOWED = "yes";
+    process.env.MS_AUTH_SPEC_SECRET = "no";
+
+    try {
+      const { value } = await node(
+        `process.stdout.write(Object.keys(process.env).join(","))`,
+        { env: ["MS_AUTH_SPEC_ALLOWED"] }
+      ).getCredential();
+      const names = String(value).split(",");
+
+      expect(names).toContain("MS_AUTH_SPEC_ALLOWED");
+      expect(names).toContain("PATH");
+      expect(names).not.toContain("MS_AUTH_SPEC_SECRET");
+    } finally {
+      process.env = env;
+    }
+  });
+
+  test("validates its configuration", () => {
+    expect(() => new ExecProvider({ command: "" })).toThrow(
+      "Command is required"
+    );
+    expect(
+      () =>
+        new ExecProvider({
+          command: "pass",
+          args: "show user" as unknown as string[],
+        })
+    ).toThrow("Command args must be an array of strings");
+    expect(
+      () =>
+        new ExecProvider({
+          command: "pass",
+          outputFormat: "yaml" as ExecConfig["outputFormat"],
+        })
+    ).toThrow("Invalid output format: yaml");
+  });
+});
@@ -0,0 +1,274 @@
+import { execFile } from "node:child_process";
+import { basename } from "node:path";
+import { CredentialProvider } from "./CredentialProvider";
+import type {
+  CertificateCredential,
+  CredentialResult,
+  ExecConfig,
+  ExecJsonOutput,
+} from "../types";
+import {
+  createCertificateCredential,
+  parsePemCertificate,
+} from "../certificate";
+import { log } from "../utils";
+
+/** Default time limit of the command in milliseconds */
+const DEFAULT_TIMEOUT = 30000;
+
+/** Largest stdout or stderr accepted from the command */
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/** Longest stderr excerpt included in error messages */
+const MAX_STDERR_LENGTH = 1000;
+
+/**
+ * Environment variables always passed on to the command so it can find
+ * executables, its configuration and a temp directory
+ */
+const BASE_ENV = [
+  "PATH",
+  "PATHEXT",
+  "HOME",
+  "USER",
+  "LOGNAME",
+  "LANG",
+  "TMPDIR",
+  "TEMP",
+  "TMP",
+  "SystemRoot",
+  "ComSpec",
+  "USERPROFILE",
+  "APPDATA",
+  "LOCALAPPDATA",
+];
+
+/**
+ * External command credential provider
+ * Runs a secret manager CLI (1Password, pass, sops, ...) and reads the
+ * password or certificate from its stdout
+ */
+export class ExecProvider extends CredentialProvider {
+  constructor(config: ExecConfig) {
+    super(config);
+    this.validateConfig();
+  }
+
+  getProviderName(): string {
+    return "External Command";
+  }
+
+  validateConfig(): void {
+    const config = this.config as ExecConfig;
+    if (!config.command) {
+      throw new Error("Command is required");
+    }
+    if (
+      config.args !== undefined &&
+      (!Array.isArray(config.args) ||
+        config.args.some((arg) => typeof arg !== "string"))
+    ) {
+      throw new Error("Command args must be an array of strings");
+    }
+    if (
+      config.outputFormat &&
+      !["password", "pfx", "json"].includes(config.outputFormat)
+    ) {
+      throw new Error(
+        `Invalid output format: ${config.outputFormat}. Use password, pfx or json.`
+      );
+    }
+  }
+
+  async getCredential(): Promise<CredentialResult> {
+    const config = this.config as ExecConfig;
+    const outputFormat = config.outputFormat ?? "password";
+
+    // Arguments may hold tokens or secret references, so only count them
+    log(
+      `[ExecProvider] Running '${basename(config.command)}' with ${
+        config.args?.length ?? 0
+      } argument(s), expecting ${outputFormat} output`
+    );
+    const stdout = await this.run();
+
+    if (outputFormat === "json") {
+      return this.parseJsonOutput(stdout);
+    }
+
+    const value = stdout.trim();
+    if (outputFormat === "pfx") {
+      log("[ExecProvider] Retrieved PFX certificate");
+      return createCertificateCredential({
+        format: "pfx",
+        pfx: Buffer.from(value, "base64"),
+        passphrase: config.certificatePassword,
+      });
+    }
+
+    log(`[ExecProvider] Retrieved password (${value.length} characters)`);
+    return {
+      type: "password",
+      value,
+    };
+  }
+
+  /**
+   * Run the command without a shell and return its stdout
+   * @throws When the command cannot start, times out, exits with a non-zero
+   * code or prints nothing
+   */
+  private run(): Promise<string> {
+    const config = this.config as ExecConfig;
+    const name = basename(config.command);
+    const timeout = config.timeout ?? DEFAULT_TIMEOUT;
+
+    return new Promise((resolve, reject) => {
+      execFile(
+        config.command,
+        config.args ?? [],
+        {
+          cwd: config.cwd,
+          env: getAllowedEnv(config.env),
+          timeout,
+          maxBuffer: MAX_OUTPUT_BYTES,
+          windowsHide: true,
+          encoding: "utf-8",
+        },
+        (error, stdout, stderr) => {
+          const details = formatStderr(stderr);
+          if (error) {
+            const { code, killed, signal } = error as Error & {
+              code?: string | number;
+              killed?: boolean;
+              signal?: string;
+            };
+            if (code === "ENOENT") {
+              reject(
+                new Error(`Command '${config.command}' not found (check PATH)`)
+              );
+            } else if (code === "ERR_CHILD_PROCESS_STDIO_MAXBUFFER") {
+              reject(
+                new Error(
+                  `Command '${name}' printed more than ${MAX_OUTPUT_BYTES} bytes`
+                )
+              );
+            } else if (killed && signal) {
+              reject(
+                new Error(`Command '${name}' timed out after ${timeout}ms`)
+              );
+            } else if (typeof code === "number") {
+              reject(
+                new Error(
+                  `Command '${name}' exited with code ${code}${details}`
+                )
+              );
+            } else {
+              reject(
+                new Error(
+                  `Command '${name}' failed: ${error.message}${details}`
+                )
+              );
+            }
+            return;
+          }
+
+          if (!stdout.trim()) {
+            reject(new Error(`Command '${name}' printed no secret${details}`));
+            return;
+          }
+          resolve(stdout);
+        }
+      );
+    });
+  }
+
+  /**
+   * Read a password or certificate from JSON output
+   * The output itself is never included in errors, as it holds the secret.
+   */
+  private parseJsonOutput(stdout: string): CredentialResult {
+    const name = basename((this.config as ExecConfig).command);
+
+    let output: ExecJsonOutput;
+    try {
+      output = JSON.parse(stdout);
+    } catch {
+      throw new Error(`Command '${name}' did not print valid JSON`);
+    }
+    if (typeof output !== "object" || output === null) {
+      throw new Error(`Command '${name}' did not print a JSON object`);
+    }
+
+    const fields = (["password", "pfx", "cert"] as const).filter(
+      (field) => output[field] !== undefined
+    );
+    if (fields.length !== 1) {
+      throw new Error(
+        `Command '${name}' must print exactly one of 'password', 'pfx' or 'cert' (got ${
+          fields.join(", ") || "none"
+        })`
+      );
+    }
+    for (const field of ["password", "pfx", "cert", "key", "passphrase"]) {
+      const value = output[field as keyof ExecJsonOutput];
+      if (value !== undefined && typeof value !== "string") {
+        throw new Error(
+          `Field '${field}' printed by '${name}' must be a string, got ${typeof value}`
+        );
+      }
+    }
+
+    if (output.password !== undefined) {
+      log(
+        `[ExecProvider] Retrieved password (${output.password.length} characters)`
+      );
+      return { type: "password", value: output.password };
+    }
+
+    const certificate: CertificateCredential =
+      output.pfx !== undefined
+        ? {
+            format: "pfx",
+            pfx: Buffer.from(output.pfx, "base64"),
+            passphrase: output.passphrase,
+          }
+        : parsePemCertificate(output.cert!, {
+            key: output.key,
+            passphrase: output.passphrase,
+          });
+    log(
+      `[ExecProvider] Retrieved ${certificate.format.toUpperCase()} certificate`
+    );
+    return createCertificateCredential(certificate);
+  }
+}
+
+/**
+ * Build the command's environment from the base and allow-listed variables
+ */
+function getAllowedEnv(allowed: string[] = []): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of [...BASE_ENV, ...allowed]) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Format stderr for an error message: trimmed, shortened and on a new line
+ */
+function formatStderr(stderr: string): string {
+  const text = stderr.trim();
+  if (!text) {
+    return "";
+  }
+  return `:\n${
+    text.length > MAX_STDERR_LENGTH
+      ? `${text.slice(0, MAX_STDERR_LENGTH)}...`
+      : text
+  }`;
+}
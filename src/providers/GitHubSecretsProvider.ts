@@ -1,5 +1,9 @@
 import { CredentialProvider } from "./CredentialProvider";
 import type { GitHubSecretsConfig, CredentialResult } from "../types";
+import {
+  createCertificateCredential,
+  parseCertificateText,
+} from "../certificate";
 import { log } from "../utils";
 
 /**
@@ -32,9 +36,7 @@ export class GitHubSecretsProvider extends CredentialProvider {
     // (GitHub Actions automatically exposes secrets as env vars)
 
     const config = this.config as GitHubSecretsConfig;
-    const envVarName = config.secretName
-      .toUpperCase()
-      .replace(/[^A-Z0-9_]/g, "_");
+    const envVarName = toEnvVarName(config.secretName);
 
     log(
       `[GitHubSecretsProvider] Looking for secret '${config.secretName}' in environment`
@@ -48,20 +50,17 @@ export class GitHubSecretsProvider extends CredentialProvider {
       );
     }
 
-    // Try to detect if it's a base64 encoded certificate
-    try {
-      const decoded = Buffer.from(value, "base64");
-      if (decoded.length > 100 && decoded[0] === 0x30) {
-        log(
-          `[GitHubSecretsProvider] Retrieved certificate (${decoded.byteLength} bytes)`
-        );
-        return {
-          type: "certificate",
-          value: decoded,
-        };
-      }
-    } catch {
-      // Not base64
+    // Detect a PEM or base64-encoded PFX certificate
+    const certificate = parseCertificateText(value, {
+      passphrase:
+        config.passwordSecretName &&
+        process.env[toEnvVarName(config.passwordSecretName)],
+    });
+    if (certificate) {
+      log(
+        `[GitHubSecretsProvider] Retrieved ${certificate.format.toUpperCase()} certificate`
+      );
+      return createCertificateCredential(certificate);
     }
 
     log(
@@ -73,3 +72,10 @@ export class GitHubSecretsProvider extends CredentialProvider {
     };
   }
 }
+
+/**
+ * Get the environment variable GitHub Actions exposes a secret as
+ */
+function toEnvVarName(secretName: string): string {
+  return secretName.toUpperCase().replace(/[^A-Z0-9_]/g, "_");
+}
@@ -0,0 +1,351 @@
+import { test, expect } from "@playwright/test";
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type IncomingMessage,
+  type Server,
+} from "node:http";
+import { connect, type AddressInfo } from "node:net";
+import { HashiCorpVaultProvider } from "./HashiCorpVaultProvider";
+import type { HashiCorpVaultConfig } from "../types";
+
+/** Request received by the stub Vault server */
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  body?: Record<string, unknown>;
+}
+
+/** Status and JSON body answered by a stub route */
+type StubResponse = [status: number, body: unknown];
+
+/**
+ * Minimal Vault HTTP API that answers "METHOD /path?query" routes and records
+ * every request
+ */
+class StubVault {
+  readonly requests: RecordedRequest[] = [];
+  routes: Record<string, StubResponse> = {};
+  private server: Server = createServer(async (req, res) => {
+    const body = await readBody(req);
+    this.requests.push({
+      method: req.method!,
+      url: req.url!,
+      headers: req.headers,
+      body: body ? JSON.parse(body) : undefined,
+    });
+    const [status, response] = this.routes[`${req.method} ${req.url}`] ?? [
+      404,
+      { errors: [] },
+    ];
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(response));
+  });
+
+  get address(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  reset(routes: Record<string, StubResponse>): void {
+    this.requests.length = 0;
+    this.routes = routes;
+  }
+}
+
+/**
+ * HTTP CONNECT proxy that records the tunnels it opens
+ */
+class StubProxy {
+  readonly tunnels: { authority: string; authorization?: string }[] = [];
+  private server: Server = createServer((_req, res) => {
+    res.writeHead(405);
+    res.end();
+  }).on("connect", (req, socket, head) => {
+    this.tunnels.push({
+      authority: req.url!,
+      authorization: req.headers["proxy-authorization"],
+    });
+    const [host, port] = req.url!.split(":");
+    const upstream = connect(Number(port), host, () => {
+      socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+      upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on("error", () => socket.destroy());
+    socket.on("error", () => upstream.destroy());
+  });
+
+  get address(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+const vault = new StubVault();
+const proxy = new StubProxy();
+
+test.beforeAll(async () => {
+  await vault.start();
+  await proxy.start();
+});
+
+test.afterAll(async () => {
+  await vault.stop();
+  await proxy.stop();
+});
+
+/**
+ * Create a provider for the stub server, ignoring any proxy of the environment
+ */
+function createProvider(
+  config: Partial<HashiCorpVaultConfig> = {}
+): HashiCorpVaultProvider {
+  return new HashiCorpVaultProvider({
+    address: vault.address,
+    secretPath: "playwright/test-user",
+    auth: { method: "token", token: "static-token" },
+    proxy: false,
+    timeout: 5000,
+    ...config,
+  });
+}
+
+test.describe("HashiCorpVaultProvider", () => {
+  test("reads a KV v2 secret with a token", async () => {
+    vault.reset({
+      "GET /v1/secret/data/playwright/test-user": [
+        200,
+        { data: { data: { value: "p@ssw0rd" }, metadata: { version: 4 } } },
+      ],
+    });
+
+    const credential = await createProvider().getCredential();
+
+    expect(credential).toEqual({ type: "password", value: "p@ssw0rd" });
+    expect(vault.requests).toHaveLength(1);
+    expect(vault.requests[0].headers["x-vault-token"]).toBe("static-token");
+    expect(vault.requests[0].headers["x-vault-namespace"]).toBeUndefined();
+  });
+
+  test("reads a pinned KV v2 version", async () => {
+    vault.reset({
+      "GET /v1/secret/data/playwright/test-user?version=3": [
+        200,
+        { data: { data: { password: "old" } } },
+      ],
+    });
+
+    const credential = await createProvider({
+      version: 3,
+      field: "password",
+    }).getCredential();
+
+    expect(credential).toEqual({ type: "password", value: "old" });
+  });
+
+  test("reads a KV v1 secret from a custom mount", async () => {
+    vault.reset({
+      "GET /v1/kv/playwright/test-user": [200, { data: { value: "v1" } }],
+    });
+
+    const credential = await createProvider({
+      kvVersion: 1,
+      mountPath: "/kv/",
+    }).getCredential();
+
+    expect(credential).toEqual({ type: "password", value: "v1" });
+  });
+
+  test("sends the namespace header", async () => {
+    vault.reset({
+      "GET /v1/secret/data/playwright/test-user": [
+        200,
+        { data: { data: { value: "p@ssw0rd" } } },
+      ],
+    });
+
+    await createProvider({ namespace: "team-a" }).getCredential();
+
+    expect(vault.requests[0].headers["x-vault-namespace"]).toBe("team-a");
+  });
+
+  test("logs in with AppRole and revokes the token", async () => {
+    vault.reset({
+      "POST /v1/auth/approle/login": [
+        200,
+        { auth: { client_token: "approle-token" } },
+      ],
+      "GET /v1/secret/data/playwright/test-user": [
+        200,
+        { data: { data: { value: "p@ssw0rd" } } },
+      ],
+      "POST /v1/auth/token/revoke-self": [204, {}],
+    });
+
+    const credential = await createProvider({
+      auth: { method: "approle", roleId: "role", secretId: "secret" },
+      namespace: "team-a",
+    }).getCredential();
+
+    expect(credential.value).toBe("p@ssw0rd");
+    expect(
+      vault.requests.map((request) => `${request.method} ${request.url}`)
+    ).toEqual([
+      "POST /v1/auth/approle/login",
+      "GET /v1/secret/data/playwright/test-user",
+      "POST /v1/auth/token/revoke-self",
+    ]);
+    const [login, read, revoke] = vault.requests;
+    expect(login.body).toEqual({ role_id: "role", secret_id: "secret" });
+    expect(login.headers["x-vault-token"]).toBeUndefined();
+    expect(read.headers["x-vault-token"]).toBe("approle-token");
+    expect(revoke.headers["x-vault-token"]).toBe("approle-token");
+    expect(
+      vault.requests.every(
+        (request) => request.headers["x-vault-namespace"] === "team-a"
+      )
+    ).toBe(true);
+  });
+
+  test("logs in with a JWT at a custom mount and revokes the token", async () => {
+    vault.reset({
+      "POST /v1/auth/github/login": [
+        200,
+        { auth: { client_token: "jwt-token" } },
+      ],
+      "GET /v1/secret/data/playwright/test-user": [
+        200,
+        { data: { data: { value: "p@ssw0rd" } } },
+      ],
+      "POST /v1/auth/token/revoke-self": [204, {}],
+    });
+
+    await createProvider({
+      auth: { method: "jwt", role: "ci", jwt: "eyJ.test", mountPath: "github" },
+    }).getCredential();
+
+    expect(vault.requests[0].body).toEqual({ role: "ci", jwt: "eyJ.test" });
+    expect(vault.requests[2].url).toBe("/v1/auth/token/revoke-self");
+    expect(vault.requests[2].headers["x-vault-token"]).toBe("jwt-token");
+  });
+
+  test("requests the GitHub Actions OIDC token for JWT auth", async () => {
+    vault.reset({
+      "GET /oidc?api-version=2.0&audience=vault": [200, { value: "gha.jwt" }],
+      "POST /v1/auth/jwt/login": [200, { auth: { client_token: "jwt-token" } }],
+      "GET /v1/secret/data/playwright/test-user": [
+        200,
+        { data: { data: { value: "p@ssw0rd" } } },
+      ],
+      "POST /v1/auth/token/revoke-self": [204, {}],
+    });
+    const env = { ...process.env };
+    process.env.ACTIONS_ID_TOKEN_REQUEST_URL = `${vault.address}/oidc?api-version=2.0`;
+    process.env.ACTIONS_ID_TOKEN_REQUEST_TOKEN = "request-token";
+
+    try {
+      await createProvider({
+        auth: { method: "jwt", role: "ci", audience: "vault" },
+      }).getCredential();
+    } finally {
+      process.env = env;
+    }
+
+    const [oidc, login] = vault.requests;
+    expect(oidc.headers.authorization).toBe("Bearer request-token");
+    expect(login.body).toEqual({ role: "ci", jwt: "gha.jwt" });
+  });
+
+  test("reports the Vault errors of a failed request", async () => {
+    vault.reset({
+      "POST /v1/auth/approle/login": [
+        200,
+        { auth: { client_token: "approle-token" } },
+      ],
+      "GET /v1/secret/data/playwright/test-user": [
+        403,
+        { errors: ["1 error occurred:", "permission denied"] },
+      ],
+      "POST /v1/auth/token/revoke-self": [204, {}],
+    });
+
+    await expect(
+      createProvider({
+        auth: { method: "approle", roleId: "role" },
+      }).getCredential()
+    ).rejects.toThrow(
+      "Vault GET /v1/secret/data/playwright/test-user failed (403): 1 error occurred:; permission denied"
+    );
+    // The issued token is revoked even though the read failed
+    expect(vault.requests[vault.requests.length - 1].url).toBe(
+      "/v1/auth/token/revoke-self"
+    );
+  });
+
+  test("reports a missing field with the available fields", async () => {
+    vault.reset({
+      "GET /v1/secret/data/playwright/test-user": [
+        200,
+        { data: { data: { username: "user", password: "p@ssw0rd" } } },
+      ],
+    });
+
+    await expect(createProvider().getCredential()).rejects.toThrow(
+      "Vault secret 'playwright/test-user' has no field 'value' (available fields: username, password)"
+    );
+  });
+
+  test("connects through the configured proxy", async () => {
+    vault.reset({
+      "GET /v1/secret/data/playwright/test-user": [
+        200,
+        { data: { data: { value: "p@ssw0rd" } } },
+      ],
+    });
+    const tunnels = proxy.tunnels.length;
+
+    const credential = await createProvider({
+      proxy: { server: proxy.address, username: "proxy-user", password: "pw" },
+    }).getCredential();
+
+    expect(credential.value).toBe("p@ssw0rd");
+    expect(proxy.tunnels.slice(tunnels)).toEqual([
+      {
+        authority: new URL(vault.address).host,
+        authorization: `Basic ${Buffer.from("proxy-user:pw").toString(
+          "base64"
+        )}`,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,424 @@
+import { readFileSync } from "node:fs";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { connect, rootCertificates } from "node:tls";
+import { CredentialProvider } from "./CredentialProvider";
+import type {
+  CredentialResult,
+  HashiCorpVaultAuth,
+  HashiCorpVaultConfig,
+  ProxySettings,
+} from "../types";
+import {
+  createCertificateCredential,
+  parseCertificateText,
+} from "../certificate";
+import { openProxyTunnel, resolveProxy } from "../proxy";
+import { log } from "../utils";
+
+/** Default request timeout in milliseconds */
+const DEFAULT_TIMEOUT = 30000;
+
+/** Response of an HTTP request */
+interface HttpResponse {
+  status: number;
+  body: string;
+}
+
+/** Options of an HTTP request */
+interface HttpRequestOptions {
+  method: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  ca?: string[];
+  proxy?: ProxySettings | false;
+  timeout: number;
+}
+
+/** Vault API response body */
+interface VaultResponse {
+  data?: Record<string, unknown> & { data?: Record<string, unknown> };
+  auth?: { client_token?: string };
+  errors?: string[];
+}
+
+/**
+ * HashiCorp Vault credential provider
+ * Retrieves passwords, certificates or TOTP seeds from a KV v1/v2 secret
+ */
+export class HashiCorpVaultProvider extends CredentialProvider {
+  constructor(config: HashiCorpVaultConfig) {
+    super(config);
+    this.validateConfig();
+  }
+
+  getProviderName(): string {
+    return "HashiCorp Vault";
+  }
+
+  validateConfig(): void {
+    const config = this.config as HashiCorpVaultConfig;
+    if (!config.address) {
+      throw new Error("Vault address is required");
+    }
+    if (!config.secretPath) {
+      throw new Error("Vault secret path is required");
+    }
+    try {
+      new URL(config.address);
+    } catch {
+      throw new Error(`Invalid Vault address URL: ${config.address}`);
+    }
+    if (config.kvVersion !== undefined && ![1, 2].includes(config.kvVersion)) {
+      throw new Error(
+        `Invalid Vault KV version: ${config.kvVersion}. Use 1 or 2.`
+      );
+    }
+
+    const auth = config.auth;
+    if (auth?.method === "approle" && !auth.roleId) {
+      throw new Error("Vault AppRole auth requires a role ID");
+    }
+    if (auth?.method === "jwt" && !auth.role) {
+      throw new Error("Vault JWT auth requires a role");
+    }
+    if (auth && !["token", "approle", "jwt"].includes(auth.method)) {
+      throw new Error(
+        `Invalid Vault auth method: ${
+          (auth as { method: string }).method
+        }. Use token, approle or jwt.`
+      );
+    }
+  }
+
+  async getCredential(): Promise<CredentialResult> {
+    const config = this.config as HashiCorpVaultConfig;
+    const field = config.field || "value";
+
+    const { token, issued } = await this.login();
+    let secret: Record<string, unknown>;
+    try {
+      secret = await this.readSecret(token);
+    } finally {
+      if (issued) {
+        await this.revokeToken(token);
+      }
+    }
+
+    const value = secret[field];
+    if (value === undefined || value === null || value === "") {
+      throw new Error(
+        `Vault secret '${config.secretPath}' has no field '${field}' ` +
+          `(available fields: ${Object.keys(secret).join(", ") || "none"})`
+      );
+    }
+    if (typeof value !== "string") {
+      throw new Error(
+        `Vault secret field '${field}' must be a string, got ${typeof value}`
+      );
+    }
+
+    // Detect a PEM or base64-encoded PFX certificate
+    const passphrase = config.passwordField
+      ? secret[config.passwordField]
+      : undefined;
+    const certificate = parseCertificateText(value, {
+      passphrase: typeof passphrase === "string" ? passphrase : undefined,
+    });
+    if (certificate) {
+      log(
+        `[HashiCorpVaultProvider] Retrieved ${certificate.format.toUpperCase()} certificate from field '${field}'`
+      );
+      return createCertificateCredential(certificate);
+    }
+
+    log(
+      `[HashiCorpVaultProvider] Retrieved password from field '${field}' (${value.length} characters)`
+    );
+    return {
+      type: "password",
+      value,
+    };
+  }
+
+  /**
+   * Get a Vault token with the configured auth method
+   * @returns The token, and whether it was issued by a login (and should be
+   * revoked after use)
+   */
+  private async login(): Promise<{ token: string; issued: boolean }> {
+    const auth: HashiCorpVaultAuth = (this.config as HashiCorpVaultConfig)
+      .auth ?? { method: "token" };
+
+    if (auth.method === "token") {
+      const token = auth.token || process.env.VAULT_TOKEN;
+      if (!token) {
+        throw new Error(
+          "Vault token is required (set it in the auth configuration or VAULT_TOKEN)"
+        );
+      }
+      return { token, issued: false };
+    }
+
+    let mountPath: string;
+    let body: Record<string, string>;
+    if (auth.method === "approle") {
+      mountPath = auth.mountPath || "approle";
+      body = { role_id: auth.roleId };
+      if (auth.secretId) {
+        body.secret_id = auth.secretId;
+      }
+    } else {
+      mountPath = auth.mountPath || "jwt";
+      body = { role: auth.role, jwt: await this.getJwt(auth) };
+    }
+
+    log(
+      `[HashiCorpVaultProvider] Logging in with ${auth.method} auth at auth/${mountPath}`
+    );
+    const response = await this.vaultRequest(
+      "POST",
+      `auth/${trimSlashes(mountPath)}/login`,
+      body
+    );
+    const token = response.auth?.client_token;
+    if (!token) {
+      throw new Error(`Vault ${auth.method} login returned no client token`);
+    }
+    return { token, issued: true };
+  }
+
+  /**
+   * Get the JWT for JWT/OIDC auth: explicit, from a file, or requested from
+   * the GitHub Actions OIDC provider
+   */
+  private async getJwt(
+    auth: Extract<HashiCorpVaultAuth, { method: "jwt" }>
+  ): Promise<string> {
+    if (auth.jwt) {
+      return auth.jwt;
+    }
+    if (auth.jwtFile) {
+      return readFileSync(auth.jwtFile, "utf-8").trim();
+    }
+
+    const requestUrl = process.env.ACTIONS_ID_TOKEN_REQUEST_URL;
+    const requestToken = process.env.ACTIONS_ID_TOKEN_REQUEST_TOKEN;
+    if (!requestUrl || !requestToken) {
+      throw new Error(
+        "Vault JWT auth requires a JWT, a JWT file, or a GitHub Actions job with 'id-token: write' permission"
+      );
+    }
+
+    log("[HashiCorpVaultProvider] Requesting GitHub Actions OIDC token");
+    const url = new URL(requestUrl);
+    if (auth.audience) {
+      url.searchParams.set("audience", auth.audience);
+    }
+    const response = await sendRequest(url, {
+      method: "GET",
+      headers: { authorization: `Bearer ${requestToken}` },
+      proxy: (this.config as HashiCorpVaultConfig).proxy,
+      timeout: this.getTimeout(),
+    });
+    const jwt =
+      response.status === 200
+        ? parseJson<{ value?: unknown }>(response.body)?.value
+        : undefined;
+    if (typeof jwt !== "string") {
+      throw new Error(
+        `GitHub Actions OIDC token request failed (${response.status})`
+      );
+    }
+    return jwt;
+  }
+
+  /**
+   * Read the key/value pairs of the configured secret
+   */
+  private async readSecret(token: string): Promise<Record<string, unknown>> {
+    const config = this.config as HashiCorpVaultConfig;
+    const mountPath = trimSlashes(config.mountPath || "secret");
+    const secretPath = trimSlashes(config.secretPath);
+    const kvVersion = config.kvVersion ?? 2;
+
+    const path =
+      kvVersion === 2
+        ? `${mountPath}/data/${secretPath}${
+            config.version !== undefined ? `?version=${config.version}` : ""
+          }`
+        : `${mountPath}/${secretPath}`;
+
+    log(
+      `[HashiCorpVaultProvider] Reading KV v${kvVersion} secret '${secretPath}' from mount '${mountPath}'`
+    );
+    const response = await this.vaultRequest("GET", path, undefined, token);
+    const secret = kvVersion === 2 ? response.data?.data : response.data;
+    if (!secret) {
+      throw new Error(
+        `Vault secret '${secretPath}' has no data` +
+          (kvVersion === 2 ? " (deleted or destroyed version?)" : "")
+      );
+    }
+    return secret;
+  }
+
+  /**
+   * Revoke a token issued by a login; failures are only logged
+   */
+  private async revokeToken(token: string): Promise<void> {
+    try {
+      await this.vaultRequest("POST", "auth/token/revoke-self", {}, token);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`[HashiCorpVaultProvider] Could not revoke Vault token: ${message}`);
+    }
+  }
+
+  /**
+   * Call the Vault HTTP API
+   * @throws With the Vault error messages when the status is not 2xx
+   */
+  private async vaultRequest(
+    method: string,
+    path: string,
+    body?: unknown,
+    token?: string
+  ): Promise<VaultResponse> {
+    const config = this.config as HashiCorpVaultConfig;
+    const url = new URL(`v1/${path}`, `${config.address.replace(/\/*$/, "")}/`);
+    const headers: Record<string, string> = {};
+    if (token) {
+      headers["x-vault-token"] = token;
+    }
+    if (config.namespace) {
+      headers["x-vault-namespace"] = config.namespace;
+    }
+
+    const response = await sendRequest(url, {
+      method,
+      headers,
+      body,
+      ca: config.caCertPath
+        ? [...rootCertificates, readFileSync(config.caCertPath, "utf-8")]
+        : undefined,
+      proxy: config.proxy,
+      timeout: this.getTimeout(),
+    });
+    const result = parseJson<VaultResponse>(response.body) ?? {};
+
+    if (response.status < 200 || response.status >= 300) {
+      const reason = result.errors?.length
+        ? result.errors.join("; ")
+        : response.status === 404
+        ? "not found"
+        : "no details";
+      throw new Error(
+        `Vault ${method} ${url.pathname} failed (${response.status}): ${reason}`
+      );
+    }
+    return result;
+  }
+
+  private getTimeout(): number {
+    return (this.config as HashiCorpVaultConfig).timeout ?? DEFAULT_TIMEOUT;
+  }
+}
+
+/**
+ * Send an HTTP(S) request with a JSON body, through a proxy tunnel when one
+ * applies to the URL
+ */
+async function sendRequest(
+  url: URL,
+  options: HttpRequestOptions
+): Promise<HttpResponse> {
+  const payload =
+    options.body !== undefined ? JSON.stringify(options.body) : undefined;
+  const headers: Record<string, string> = {
+    accept: "application/json",
+    ...options.headers,
+  };
+  if (payload !== undefined) {
+    headers["content-type"] = "application/json";
+    headers["content-length"] = String(Buffer.byteLength(payload));
+  }
+
+  const secure = url.protocol === "https:";
+  const proxy = resolveProxy(url, options.proxy);
+  const tunnel = proxy
+    ? await openProxyTunnel(
+        proxy,
+        url.hostname,
+        Number(url.port) || (secure ? 443 : 80),
+        options.timeout
+      )
+    : undefined;
+  if (proxy) {
+    log(
+      `[HashiCorpVaultProvider] Connecting to ${url.host} via proxy ${proxy.url.host}`
+    );
+  }
+
+  const send = secure ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = send(
+      url,
+      {
+        method: options.method,
+        headers,
+        ca: options.ca,
+        ...(tunnel && {
+          createConnection: () =>
+            secure
+              ? connect({
+                  socket: tunnel,
+                  servername: url.hostname,
+                  ca: options.ca,
+                })
+              : tunnel,
+        }),
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () =>
+          resolve({
+            status: res.statusCode ?? 0,
+            body: Buffer.concat(chunks).toString("utf-8"),
+          })
+        );
+        res.on("error", reject);
+      }
+    );
+
+    req.setTimeout(options.timeout, () => {
+      req.destroy(
+        new Error(`Request to ${url.host} timed out after ${options.timeout}ms`)
+      );
+    });
+    req.on("error", (error) => {
+      tunnel?.destroy();
+      reject(error);
+    });
+    req.end(payload);
+  });
+}
+
+/**
+ * Parse a JSON response body, ignoring malformed bodies
+ */
+function parseJson<T>(body: string): T | undefined {
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remove leading and trailing slashes from a path segment
+ */
+function trimSlashes(path: string): string {
+  return path.replace(/^\/+|\/+$/g, "");
+}
@@ -1,6 +1,11 @@
 import { readFile } from "node:fs/promises";
 import { CredentialProvider } from "./CredentialProvider";
 import type { LocalFileConfig, CredentialResult } from "../types";
+import {
+  createCertificateCredential,
+  isPem,
+  parsePemCertificate,
+} from "../certificate";
 import { log } from "../utils";
 
 /**
@@ -34,8 +39,21 @@ export class LocalFileProvider extends CredentialProvider {
       // Detect file type based on extension or content
       const isTextFile = config.filePath.match(/\.(txt|pwd|password)$/i);
       const isCertFile = config.filePath.match(/\.(pfx|p12|cer|crt|pem)$/i);
+      const passphrase = config.certificatePassword;
 
-      if (isTextFile) {
+      if (isPem(fileContent)) {
+        // PEM certificate; the key is in the same file or a .key file
+        const certificate = parsePemCertificate(fileContent.toString("utf-8"), {
+          key: await this.readKeyFile(fileContent.toString("utf-8")),
+          passphrase,
+        });
+        log(
+          `[LocalFileProvider] Retrieved PEM certificate${
+            certificate.chain ? " with chain" : ""
+          }`
+        );
+        return createCertificateCredential(certificate);
+      } else if (isTextFile) {
         // Text file containing password
         const password = fileContent.toString("utf-8").trim();
         log(
@@ -50,10 +68,11 @@ export class LocalFileProvider extends CredentialProvider {
         log(
           `[LocalFileProvider] Retrieved certificate (${fileContent.byteLength} bytes)`
         );
-        return {
-          type: "certificate",
-          value: fileContent,
-        };
+        return createCertificateCredential({
+          format: "pfx",
+          pfx: fileContent,
+          passphrase,
+        });
       } else {
         // Try to detect if it's base64 encoded certificate
         try {
@@ -65,10 +84,11 @@ export class LocalFileProvider extends CredentialProvider {
             log(
               `[LocalFileProvider] Retrieved base64-encoded certificate (${decoded.byteLength} bytes)`
             );
-            return {
-              type: "certificate",
-              value: decoded,
-            };
+            return createCertificateCredential({
+              format: "pfx",
+              pfx: decoded,
+              passphrase,
+            });
           }
         } catch {
           // Not base64
@@ -91,4 +111,25 @@ export class LocalFileProvider extends CredentialProvider {
       );
     }
   }
+
+  /**
+   * Read the private key of a PEM certificate file
+   * @returns The key, or undefined when it is in the certificate file itself
+   */
+  private async readKeyFile(pem: string): Promise<string | undefined> {
+    const config = this.config as LocalFileConfig;
+    if (config.keyFilePath) {
+      log(
+        `[LocalFileProvider] Reading private key from '${config.keyFilePath}'`
+      );
+      return readFile(config.keyFilePath, "utf-8");
+    }
+    if (/PRIVATE KEY-----/.test(pem)) {
+      return undefined;
+    }
+
+    const keyFilePath = config.filePath.replace(/(\.(pem|crt|cer))?$/i, ".key");
+    log(`[LocalFileProvider] Reading private key from '${keyFilePath}'`);
+    return readFile(keyFilePath, "utf-8").catch(() => undefined);
+  }
 }
@@ -4,3 +4,6 @@ export * from "./AzureKeyVaultProvider";
 export * from "./LocalFileProvider";
 export * from "./EnvironmentProvider";
 export * from "./GitHubSecretsProvider";
+export * from "./HashiCorpVaultProvider";
+export * from "./ExecProvider";
+export * from "./ChainProvider";
@@ -0,0 +1,145 @@
+import { request as http } from "node:http";
+import type { Socket } from "node:net";
+import type { ProxySettings } from "./types";
+
+/** Default proxy port when the server has none */
+const DEFAULT_PROXY_PORT = 8080;
+
+/** Proxy to connect through, with its credentials decoded */
+export interface ResolvedProxy {
+  /** Proxy URL without credentials, e.g. "http://proxy.corp:8080" */
+  url: URL;
+
+  username?: string;
+  password?: string;
+}
+
+/**
+ * Get the proxy for a request to a URL
+ *
+ * An explicit proxy takes precedence over the HTTPS_PROXY and NO_PROXY
+ * environment variables; `false` connects directly.
+ * @returns The proxy, or undefined to connect directly
+ */
+export function resolveProxy(
+  target: URL,
+  proxy?: ProxySettings | false
+): ResolvedProxy | undefined {
+  if (proxy === false) {
+    return undefined;
+  }
+
+  const settings = proxy ?? getProxyFromEnv();
+  if (!settings || isBypassed(target, settings.bypass)) {
+    return undefined;
+  }
+
+  const url = new URL(
+    /^[a-z][a-z0-9+.-]*:\/\//i.test(settings.server)
+      ? settings.server
+      : `http://${settings.server}`
+  );
+  if (url.protocol !== "http:") {
+    throw new Error(
+      `Unsupported proxy protocol '${url.protocol}' - only http:// proxies are supported`
+    );
+  }
+
+  const username = settings.username ?? decodeURIComponent(url.username);
+  const password = settings.password ?? decodeURIComponent(url.password);
+  url.username = "";
+  url.password = "";
+  return {
+    url,
+    username: username || undefined,
+    password: password || undefined,
+  };
+}
+
+/**
+ * Open a tunnel to a host through an HTTP proxy (HTTP CONNECT)
+ * @returns The socket connected to the host, ready for TLS
+ */
+export function openProxyTunnel(
+  proxy: ResolvedProxy,
+  host: string,
+  port: number,
+  timeout: number
+): Promise<Socket> {
+  const authority = `${host}:${port}`;
+  const headers: Record<string, string> = { host: authority };
+  if (proxy.username) {
+    const credentials = `${proxy.username}:${proxy.password ?? ""}`;
+    headers["proxy-authorization"] = `Basic ${Buffer.from(credentials).toString(
+      "base64"
+    )}`;
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = http({
+      host: proxy.url.hostname,
+      port: proxy.url.port || DEFAULT_PROXY_PORT,
+      method: "CONNECT",
+      path: authority,
+      headers,
+    });
+
+    req.setTimeout(timeout, () => {
+      req.destroy(
+        new Error(
+          `Proxy ${proxy.url.host} did not open a tunnel to ${authority} within ${timeout}ms`
+        )
+      );
+    });
+    req.on("error", reject);
+    req.on("connect", (res, socket) => {
+      req.setTimeout(0);
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        reject(
+          new Error(
+            `Proxy ${proxy.url.host} refused tunnel to ${authority}: ${res.statusCode} ${res.statusMessage}`
+          )
+        );
+        return;
+      }
+      resolve(socket);
+    });
+    req.end();
+  });
+}
+
+/**
+ * Read the proxy from the HTTPS_PROXY and NO_PROXY environment variables
+ */
+function getProxyFromEnv(): ProxySettings | undefined {
+  const server = process.env.HTTPS_PROXY || process.env.https_proxy;
+  if (!server) {
+    return undefined;
+  }
+  return { server, bypass: process.env.NO_PROXY || process.env.no_proxy };
+}
+
+/**
+ * Check whether a URL matches a comma-separated bypass list, e.g.
+ * "localhost,.corp.example.com,*.internal"
+ */
+function isBypassed(target: URL, bypass: string | undefined): boolean {
+  const host = target.hostname.toLowerCase();
+  return (bypass ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .some((entry) => {
+      if (entry === "*") {
+        return true;
+      }
+      const [name, port] = entry.replace(/^\*?\./, "").split(":");
+      const targetPort =
+        target.port || (target.protocol === "https:" ? "443" : "80");
+      if (port && port !== targetPort) {
+        return false;
+      }
+      return host === name || host.endsWith(`.${name}`);
+    });
+}
@@ -0,0 +1,84 @@
+import type { MsAuthConfig, SessionProbeOptions } from "./types";
+import type { StorageState } from "./storageState";
+import { openBrowser } from "./browser";
+import { restoreSessionStorage } from "./sessionStorage";
+import { getLoginEndpoint } from "./config";
+import { log } from "./utils";
+
+const DEFAULT_PROBE_TIMEOUT = 30000;
+
+/**
+ * Check that a saved storage state still holds a live session
+ *
+ * Opens the URL headlessly with the saved state and fails when the app
+ * redirects to the Entra login endpoint, or when the custom `isReady`
+ * predicate returns false. A probe that cannot decide (navigation timeout,
+ * network or server error, `isReady` throwing) keeps the state.
+ * @param storageState - Storage state file path or decrypted storage state
+ * @returns False only when the service rejected the session
+ */
+export async function probeStorageState(
+  config: MsAuthConfig,
+  storageState: string | StorageState,
+  targetUrl?: string
+): Promise<boolean> {
+  const options: SessionProbeOptions =
+    typeof config.verifySession === "object" ? config.verifySession : {};
+  const url = options.url ?? targetUrl;
+  if (!url) {
+    throw new Error(
+      "Session verification needs a URL: pass a target URL or set verifySession.url"
+    );
+  }
+
+  const timeout = options.timeout ?? DEFAULT_PROBE_TIMEOUT;
+  const loginEndpoint = getLoginEndpoint(config);
+  log(`[MsAuth] Verifying saved session for '${config.email}' at ${url}`);
+
+  const browser = await openBrowser({ ...config, headless: true });
+  try {
+    const context = await browser.newContext({
+      ...config.contextOptions,
+      storageState,
+    });
+    await restoreSessionStorage(context, storageState);
+    const page = await context.newPage();
+    const response = await page.goto(url, {
+      waitUntil: "domcontentloaded",
+      timeout,
+    });
+    if (response && response.status() >= 500) {
+      log(
+        `[MsAuth] ##[warning]Session verification got ${response.status()} from ${url}, keeping the saved state`
+      );
+      return true;
+    }
+
+    if (options.isReady) {
+      const ready = await options.isReady(page);
+      log(`[MsAuth] Session readiness check ${ready ? "passed" : "failed"}`);
+      return ready;
+    }
+
+    // SPAs redirect to sign-in after their scripts run, so let the page settle
+    await page.waitForLoadState("networkidle", { timeout }).catch(() => {});
+
+    const hostname = new URL(page.url()).hostname;
+    const redirectedToLogin =
+      hostname === loginEndpoint || hostname.endsWith(`.${loginEndpoint}`);
+    if (redirectedToLogin) {
+      log(`[MsAuth] ##[warning]Saved session was redirected to ${hostname}`);
+    } else {
+      log(`[MsAuth] Saved session is live (${page.url()})`);
+    }
+    return !redirectedToLogin;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(
+      `[MsAuth] ##[warning]Session verification could not complete, keeping the saved state: ${message}`
+    );
+    return true;
+  } finally {
+    await browser.close();
+  }
+}
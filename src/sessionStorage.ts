@@ -0,0 +1,70 @@
+import type { BrowserContext, Page } from "@playwright/test";
+import type { OriginSessionStorage, StorageState } from "./storageState";
+import { readStorageStateFile } from "./storageState";
+import { log } from "./utils";
+
+/**
+ * Read the sessionStorage of the page's current origin
+ *
+ * Playwright's `context.storageState()` does not include sessionStorage, which
+ * MSAL.js apps configured with `cacheLocation: "sessionStorage"` rely on.
+ */
+export async function captureSessionStorage(
+  page: Page
+): Promise<OriginSessionStorage | undefined> {
+  const captured = (await page
+    .evaluate(
+      `() => ({
+        origin: location.origin,
+        sessionStorage: Object.keys(sessionStorage).map((name) => ({
+          name,
+          value: sessionStorage.getItem(name),
+        })),
+      })`
+    )
+    .catch(() => undefined)) as OriginSessionStorage | undefined;
+
+  if (!captured || captured.origin === "null") {
+    return undefined;
+  }
+  log(
+    `[MsAuth] Captured ${captured.sessionStorage.length} sessionStorage entries for ${captured.origin}`
+  );
+  return captured;
+}
+
+/**
+ * Restore sessionStorage saved in a storage state into a browser context
+ *
+ * Entries are written by an init script, so they are in place before the
+ * app's scripts run. Existing entries are not overwritten.
+ * @param storageState - Storage state file path or storage state object
+ */
+export async function restoreSessionStorage(
+  context: BrowserContext,
+  storageState: string | StorageState
+): Promise<void> {
+  const state =
+    typeof storageState === "string"
+      ? await readStorageStateFile(storageState)
+      : storageState;
+  const origins = state.sessionStorage ?? [];
+  if (origins.length === 0) {
+    return;
+  }
+
+  log(`[MsAuth] Restoring sessionStorage for ${origins.length} origin(s)`);
+  await context.addInitScript({
+    content: `(() => {
+      const saved = ${JSON.stringify(origins)}.find(
+        (entry) => entry.origin === location.origin
+      );
+      if (!saved) return;
+      for (const { name, value } of saved.sessionStorage) {
+        if (sessionStorage.getItem(name) === null) {
+          sessionStorage.setItem(name, value);
+        }
+      }
+    })();`,
+  });
+}
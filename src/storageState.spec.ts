@@ -0,0 +1,159 @@
+import { test, expect } from "@playwright/test";
+import { getStorageStateExpiry, type StorageState } from "./storageState";
+
+const APP_ORIGIN = "https://app.contoso.com";
+
+/** Seconds since epoch of an ISO date */
+const seconds = (iso: string) => Date.parse(iso) / 1000;
+
+function cookie(
+  name: string,
+  expires: number
+): StorageState["cookies"][number] {
+  return {
+    name,
+    value: "cookie-value",
+    domain: ".login.microsoftonline.com",
+    path: "/",
+    expires,
+    httpOnly: true,
+    secure: true,
+    sameSite: "None",
+  };
+}
+
+/**
+ * msal-browser v2/v3 credential entry
+ */
+function msalEntry(
+  credentialType: "AccessToken" | "RefreshToken" | "IdToken",
+  expires?: { expiresOn?: string; extendedExpiresOn?: string }
+): { name: string; value: string } {
+  const homeAccountId = "uid.utid";
+  return {
+    name: `${homeAccountId}-login.windows.net-${credentialType.toLowerCase()}-client-id`,
+    value: JSON.stringify({
+      homeAccountId,
+      environment: "login.windows.net",
+      credentialType,
+      clientId: "client-id",
+      realm: "utid",
+      secret: `${credentialType}-secret`,
+      target: "user.read",
+      ...(expires?.expiresOn && {
+        expiresOn: String(seconds(expires.expiresOn)),
+      }),
+      ...(expires?.extendedExpiresOn && {
+        extendedExpiresOn: String(seconds(expires.extendedExpiresOn)),
+      }),
+    }),
+  };
+}
+
+function state(
+  cookies: StorageState["cookies"],
+  localStorage: { name: string; value: string }[] = []
+): StorageState {
+  return { cookies, origins: [{ origin: APP_ORIGIN, localStorage }] };
+}
+
+test.describe("getStorageStateExpiry", () => {
+  test("uses the latest persistent Entra session cookie", () => {
+    const expiry = getStorageStateExpiry(
+      state([
+        cookie("ESTSAUTHPERSISTENT", seconds("2030-01-10T00:00:00Z")),
+        cookie("ESTSAUTH", seconds("2030-01-20T00:00:00Z")),
+        // Ignored: not an Entra session cookie, and a session-only cookie
+        cookie("buid", seconds("2031-01-01T00:00:00Z")),
+        cookie("ESTSAUTHLIGHT", -1),
+      ])
+    );
+
+    expect(expiry).toEqual({
+      hasRefreshToken: false,
+      cookieExpiresAt: new Date("2030-01-20T00:00:00Z"),
+      expiresAt: new Date("2030-01-20T00:00:00Z"),
+    });
+  });
+
+  test("uses the refresh token expiry when it outlives the cookies", () => {
+    const expiry = getStorageStateExpiry(
+      state(
+        [cookie("ESTSAUTHPERSISTENT", seconds("2030-01-10T00:00:00Z"))],
+        [
+          msalEntry("RefreshToken", { expiresOn: "2030-03-01T00:00:00Z" }),
+          msalEntry("AccessToken", { expiresOn: "2030-01-01T01:00:00Z" }),
+        ]
+      )
+    );
+
+    expect(expiry.hasRefreshToken).toBe(true);
+    expect(expiry.refreshTokenExpiresAt).toEqual(
+      new Date("2030-03-01T00:00:00Z")
+    );
+    expect(expiry.expiresAt).toEqual(new Date("2030-03-01T00:00:00Z"));
+  });
+
+  test("uses the access token expiry without cookies or refresh tokens", () => {
+    const expiry = getStorageStateExpiry(
+      state(
+        [],
+        [
+          msalEntry("AccessToken", {
+            expiresOn: "2030-01-01T01:00:00Z",
+            extendedExpiresOn: "2030-01-01T02:00:00Z",
+          }),
+          msalEntry("IdToken"),
+        ]
+      )
+    );
+
+    expect(expiry).toEqual({
+      hasRefreshToken: false,
+      accessTokenExpiresAt: new Date("2030-01-01T01:00:00Z"),
+      accessTokenExtendedExpiresAt: new Date("2030-01-01T02:00:00Z"),
+      expiresAt: new Date("2030-01-01T01:00:00Z"),
+    });
+  });
+
+  test("reads tokens kept in sessionStorage", () => {
+    const expiry = getStorageStateExpiry({
+      cookies: [],
+      origins: [],
+      sessionStorage: [
+        {
+          origin: APP_ORIGIN,
+          sessionStorage: [
+            msalEntry("AccessToken", { expiresOn: "2030-01-01T01:00:00Z" }),
+          ],
+        },
+      ],
+    });
+
+    expect(expiry.expiresAt).toEqual(new Date("2030-01-01T01:00:00Z"));
+  });
+
+  test("falls back to the cookies when the refresh token has no expiry", () => {
+    const expiry = getStorageStateExpiry(
+      state(
+        [cookie("ESTSAUTHPERSISTENT", seconds("2030-01-10T00:00:00Z"))],
+        [msalEntry("RefreshToken")]
+      )
+    );
+
+    expect(expiry.hasRefreshToken).toBe(true);
+    expect(expiry.refreshTokenExpiresAt).toBeUndefined();
+    expect(expiry.expiresAt).toEqual(new Date("2030-01-10T00:00:00Z"));
+  });
+
+  test("reports no expiry for a state without cookies or tokens", () => {
+    const expiry = getStorageStateExpiry(
+      state(
+        [cookie("ESTSAUTH", -1)],
+        [{ name: "theme", value: '{"dark":true}' }]
+      )
+    );
+
+    expect(expiry).toEqual({ hasRefreshToken: false });
+  });
+});
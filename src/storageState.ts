@@ -0,0 +1,143 @@
+import { chmod, readFile, writeFile } from "node:fs/promises";
+import type { BrowserContext } from "@playwright/test";
+import {
+  decryptStorageState,
+  encryptStorageState,
+  isEncryptedStorageState,
+} from "./encryption";
+import { parseMsalCache } from "./msalCache";
+
+/** sessionStorage captured for one origin */
+export interface OriginSessionStorage {
+  origin: string;
+  sessionStorage: { name: string; value: string }[];
+}
+
+/**
+ * Storage state as saved by Playwright, plus the sessionStorage that
+ * Playwright does not persist
+ */
+export type StorageState = Awaited<
+  ReturnType<BrowserContext["storageState"]>
+> & {
+  sessionStorage?: OriginSessionStorage[];
+};
+
+/** Entra session cookies that keep the user signed in */
+const ENTRA_SESSION_COOKIES = [
+  "ESTSAUTH",
+  "ESTSAUTHPERSISTENT",
+  "ESTSAUTHLIGHT",
+];
+
+/** Expiry information derived from the contents of a storage state */
+export interface StorageStateExpiry {
+  /**
+   * Time after which the session can no longer be renewed, or undefined when
+   * the state holds no expiry information
+   */
+  expiresAt?: Date;
+
+  /** Latest expiry of the persistent Entra session cookies */
+  cookieExpiresAt?: Date;
+
+  /** Latest MSAL access token expiry */
+  accessTokenExpiresAt?: Date;
+
+  /** Latest MSAL access token extended expiry */
+  accessTokenExtendedExpiresAt?: Date;
+
+  /** True when the MSAL cache holds a refresh token */
+  hasRefreshToken: boolean;
+
+  /** Latest MSAL refresh token expiry, when MSAL records one */
+  refreshTokenExpiresAt?: Date;
+}
+
+/**
+ * Work out when a saved session really expires
+ *
+ * The session stays usable as long as any renewal path is alive: a
+ * persistent Entra cookie, a refresh token or an unexpired access token.
+ * The latest known expiry of those is returned.
+ */
+export function getStorageStateExpiry(state: StorageState): StorageStateExpiry {
+  const expiry: StorageStateExpiry = { hasRefreshToken: false };
+
+  for (const cookie of state.cookies ?? []) {
+    if (ENTRA_SESSION_COOKIES.includes(cookie.name) && cookie.expires > 0) {
+      expiry.cookieExpiresAt = latest(
+        expiry.cookieExpiresAt,
+        new Date(cookie.expires * 1000)
+      );
+    }
+  }
+
+  const cache = parseMsalCache(state);
+  for (const token of cache.accessTokens) {
+    expiry.accessTokenExpiresAt = latest(
+      expiry.accessTokenExpiresAt,
+      token.expiresAt
+    );
+    expiry.accessTokenExtendedExpiresAt = latest(
+      expiry.accessTokenExtendedExpiresAt,
+      token.extendedExpiresAt
+    );
+  }
+  for (const token of cache.refreshTokens) {
+    expiry.hasRefreshToken = true;
+    expiry.refreshTokenExpiresAt = latest(
+      expiry.refreshTokenExpiresAt,
+      token.expiresAt
+    );
+  }
+
+  expiry.expiresAt = [
+    expiry.cookieExpiresAt,
+    expiry.refreshTokenExpiresAt,
+    expiry.accessTokenExpiresAt,
+  ].reduce(latest, undefined);
+
+  return expiry;
+}
+
+/**
+ * Read a storage state file, decrypting it when it is encrypted
+ * @param key - Encryption key; required for encrypted files
+ */
+export async function readStorageStateFile(
+  filePath: string,
+  key?: string
+): Promise<StorageState> {
+  const contents = JSON.parse(await readFile(filePath, "utf-8"));
+  if (!isEncryptedStorageState(contents)) {
+    return contents;
+  }
+  if (!key) {
+    throw new Error(
+      `Storage state '${filePath}' is encrypted but no encryption key is configured`
+    );
+  }
+  return decryptStorageState(contents, key);
+}
+
+/**
+ * Write a storage state file readable only by the current user
+ * @param key - Encryption key; the state is written in plaintext without one
+ */
+export async function writeStorageStateFile(
+  filePath: string,
+  state: StorageState,
+  key?: string
+): Promise<void> {
+  const contents = key ? await encryptStorageState(state, key) : state;
+  await writeFile(filePath, JSON.stringify(contents, null, 2), { mode: 0o600 });
+  // The mode only applies to new files
+  await chmod(filePath, 0o600);
+}
+
+function latest(a: Date | undefined, b: Date | undefined): Date | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
@@ -0,0 +1,177 @@
+/**
+ * Playwright Test integration for playwright-ms-auth
+ *
+ * Import from "playwright-ms-auth/test" instead of "@playwright/test" to get
+ * authenticated fixtures.
+ */
+
+import { test as base, expect } from "@playwright/test";
+import type { BrowserContext, Page, Project } from "@playwright/test";
+import type { MsAuthConfig, MsAuthUser } from "./types";
+import { resolveStorageState } from "./authenticate";
+import { loadConfigFromEnv } from "./config";
+import { restoreSessionStorage } from "./sessionStorage";
+import type { StorageState } from "./storageState";
+
+/** Time allowed for the `msAuth` fixture to sign in */
+const MS_AUTH_FIXTURE_TIMEOUT = 120000;
+
+/**
+ * Options that can be set with `test.use()` or in `playwright.config.ts`
+ * They are worker-scoped: tests with different users run in separate workers.
+ */
+export interface MsAuthOptions {
+  /** Named users available to tests */
+  msAuthUsers: Record<string, MsAuthUser>;
+
+  /** Name of the user to sign in as (default: the user configured through environment variables) */
+  msAuthUser: string | undefined;
+
+  /** Target URL for the environment-configured user (default: the project's baseURL) */
+  msAuthUrl: string | undefined;
+}
+
+/** Authenticated session provided by the `msAuth` fixture */
+export interface MsAuthSession {
+  /** Name of the selected user, if any */
+  user?: string;
+
+  /** Configuration of the signed-in user */
+  config: MsAuthConfig;
+
+  /** URL the user was authenticated against */
+  targetUrl: string;
+
+  /**
+   * Storage state to pass to `browser.newContext()`: a file path, or the
+   * decrypted state when encryption is configured
+   */
+  storageState: string | StorageState;
+}
+
+/** Worker-scoped fixtures provided by playwright-ms-auth */
+export interface MsAuthWorkerFixtures {
+  /**
+   * Valid storage state for the selected user, authenticating first if
+   * needed; resolved once per worker
+   */
+  msAuth: MsAuthSession;
+}
+
+/** Test-scoped fixtures provided by playwright-ms-auth */
+export interface MsAuthFixtures {
+  /** Browser context signed in as the selected user */
+  authenticatedContext: BrowserContext;
+
+  /** Page in the authenticated context */
+  authenticatedPage: Page;
+}
+
+/**
+ * Playwright test with Microsoft Entra authentication fixtures
+ */
+export const test = base.extend<
+  MsAuthFixtures,
+  MsAuthOptions & MsAuthWorkerFixtures
+>({
+  msAuthUsers: [{}, { option: true, scope: "worker" }],
+  msAuthUser: [undefined, { option: true, scope: "worker" }],
+  msAuthUrl: [undefined, { option: true, scope: "worker" }],
+
+  msAuth: [
+    async ({ msAuthUsers, msAuthUser, msAuthUrl }, use, workerInfo) => {
+      const { config, targetUrl } = resolveMsAuthUser(
+        msAuthUsers,
+        msAuthUser,
+        msAuthUrl ?? workerInfo.project.use.baseURL
+      );
+
+      // Skips the browser login while the saved state is still valid
+      const storageState = await resolveStorageState(config, targetUrl);
+
+      await use({ user: msAuthUser, config, targetUrl, storageState });
+    },
+    { scope: "worker", timeout: MS_AUTH_FIXTURE_TIMEOUT },
+  ],
+
+  authenticatedContext: async ({ browser, contextOptions, msAuth }, use) => {
+    const context = await browser.newContext({
+      ...contextOptions,
+      ...msAuth.config.contextOptions,
+      storageState: msAuth.storageState,
+    });
+    await restoreSessionStorage(context, msAuth.storageState);
+    await use(context);
+    await context.close();
+  },
+
+  authenticatedPage: async ({ authenticatedContext }, use) => {
+    const page = await authenticatedContext.newPage();
+    await use(page);
+  },
+});
+
+export { expect };
+
+/** Options for `defineMsAuthSetup()` */
+export interface MsAuthSetupOptions {
+  /** Project name to reference in `dependencies` (default: "ms-auth-setup") */
+  name?: string;
+
+  /** Users to authenticate (default: the user configured through environment variables) */
+  users?: Record<string, MsAuthUser>;
+
+  /** Target URL for the environment-configured user (default: baseURL) */
+  url?: string;
+}
+
+/**
+ * Create a setup project that authenticates all users before the test projects run
+ *
+ * @example
+ * projects: [
+ *   defineMsAuthSetup({ users }),
+ *   { name: "e2e", dependencies: ["ms-auth-setup"], use: { msAuthUsers: users } },
+ * ]
+ */
+export function defineMsAuthSetup(
+  options: MsAuthSetupOptions = {}
+): Project<{}, MsAuthOptions> {
+  return {
+    name: options.name ?? "ms-auth-setup",
+    testDir: __dirname,
+    testMatch: /msAuth\.setup\.(js|ts)$/,
+    use: {
+      msAuthUsers: options.users ?? {},
+      msAuthUrl: options.url,
+    },
+  };
+}
+
+/**
+ * Resolve the configuration and target URL of the selected user
+ */
+export function resolveMsAuthUser(
+  users: Record<string, MsAuthUser>,
+  name: string | undefined,
+  defaultUrl: string | undefined
+): { config: MsAuthConfig; targetUrl: string } {
+  if (name) {
+    const user = users[name];
+    if (!user) {
+      throw new Error(
+        `Unknown msAuthUser '${name}'. Configured users: ${
+          Object.keys(users).join(", ") || "none"
+        }`
+      );
+    }
+    return { config: user, targetUrl: user.targetUrl };
+  }
+
+  if (!defaultUrl) {
+    throw new Error(
+      "No target URL for authentication. Set msAuthUrl or baseURL, or select a user with msAuthUser."
+    );
+  }
+  return { config: loadConfigFromEnv(), targetUrl: defaultUrl };
+}
@@ -0,0 +1,172 @@
+import { request } from "@playwright/test";
+import type { MsAuthConfig } from "./types";
+import type { MsalToken } from "./msalCache";
+import type { StorageState } from "./storageState";
+import { getLoginEndpoint } from "./config";
+import { parseMsalCache } from "./msalCache";
+import { log } from "./utils";
+
+/** Scopes requested with every refresh so an ID and refresh token come back */
+const OIDC_SCOPES = ["openid", "profile", "offline_access"];
+
+/** Successful response of the Entra token endpoint */
+interface TokenResponse {
+  access_token?: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  ext_expires_in?: number;
+  refresh_token_expires_in?: number;
+}
+
+/**
+ * Renew the MSAL tokens in a storage state with its cached refresh tokens
+ *
+ * Each refresh token is redeemed at the configured login endpoint once per
+ * cached access token, with the app's origin as `Origin` header (required for
+ * single-page application registrations). The access, ID and refresh token
+ * entries are rewritten in place; no browser is launched.
+ * @returns A copy of the state with renewed tokens
+ * @throws When the state holds no refresh token or Entra rejects it
+ */
+export async function refreshStorageStateTokens(
+  config: MsAuthConfig,
+  state: StorageState
+): Promise<StorageState> {
+  const refreshed: StorageState = JSON.parse(JSON.stringify(state));
+  const cache = parseMsalCache(refreshed);
+  if (cache.refreshTokens.length === 0) {
+    throw new Error("Storage state holds no MSAL refresh token");
+  }
+
+  const api = await request.newContext();
+  try {
+    for (const refreshToken of cache.refreshTokens) {
+      const sameCache = (token: MsalToken) =>
+        token.clientId === refreshToken.clientId &&
+        token.homeAccountId === refreshToken.homeAccountId &&
+        token.origin === refreshToken.origin &&
+        token.storage === refreshToken.storage;
+      const accessTokens = cache.accessTokens.filter(sameCache);
+      const idToken = cache.idTokens.find(sameCache);
+      const tenantId =
+        accessTokens[0]?.tenantId ??
+        idToken?.tenantId ??
+        refreshToken.homeAccountId?.split(".")[1] ??
+        "organizations";
+
+      log(
+        `[MsAuth] Refreshing ${accessTokens.length} access token(s) for client ${refreshToken.clientId} at ${refreshToken.origin}`
+      );
+
+      let secret = refreshToken.token;
+      let response: TokenResponse = {};
+      // Without cached access tokens, still renew the ID and refresh token
+      for (const accessToken of accessTokens.length ? accessTokens : [null]) {
+        const now = Math.floor(Date.now() / 1000);
+        response = await redeemRefreshToken(api, config, {
+          tenantId,
+          clientId: refreshToken.clientId,
+          origin: refreshToken.origin,
+          refreshToken: secret,
+          scopes: accessToken?.scopes ?? [],
+        });
+        secret = response.refresh_token ?? secret;
+
+        if (accessToken && response.access_token) {
+          updateCacheEntry(refreshed, accessToken, (entry) => {
+            entry.secret = response.access_token;
+            entry.cachedAt = String(now);
+            entry.expiresOn = String(now + (response.expires_in ?? 3600));
+            entry.extendedExpiresOn = String(
+              now + (response.ext_expires_in ?? response.expires_in ?? 3600)
+            );
+            delete entry.refreshOn;
+          });
+        }
+      }
+
+      updateCacheEntry(refreshed, refreshToken, (entry) => {
+        entry.secret = secret;
+        if (response.refresh_token_expires_in) {
+          const now = Math.floor(Date.now() / 1000);
+          entry.expiresOn = String(now + response.refresh_token_expires_in);
+        }
+      });
+      if (idToken && response.id_token) {
+        updateCacheEntry(refreshed, idToken, (entry) => {
+          entry.secret = response.id_token;
+        });
+      }
+    }
+  } finally {
+    await api.dispose();
+  }
+
+  return refreshed;
+}
+
+/**
+ * Redeem a refresh token at the Entra token endpoint
+ */
+async function redeemRefreshToken(
+  api: Awaited<ReturnType<typeof request.newContext>>,
+  config: MsAuthConfig,
+  params: {
+    tenantId: string;
+    clientId: string;
+    origin: string;
+    refreshToken: string;
+    scopes: string[];
+  }
+): Promise<TokenResponse> {
+  const endpoint = `https://${getLoginEndpoint(config)}/${
+    params.tenantId
+  }/oauth2/v2.0/token`;
+  const scopes = [...new Set([...params.scopes, ...OIDC_SCOPES])];
+
+  const response = await api.post(endpoint, {
+    form: {
+      client_id: params.clientId,
+      grant_type: "refresh_token",
+      refresh_token: params.refreshToken,
+      scope: scopes.join(" "),
+    },
+    headers: { Origin: params.origin },
+    failOnStatusCode: false,
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok()) {
+    throw new Error(
+      `Token refresh failed (${response.status()}): ${
+        body.error_description?.split(/\r?\n/)[0] ?? body.error ?? "no details"
+      }`
+    );
+  }
+  return body;
+}
+
+/**
+ * Rewrite the raw storage entry behind a parsed MSAL token
+ */
+function updateCacheEntry(
+  state: StorageState,
+  token: MsalToken,
+  update: (entry: Record<string, unknown>) => void
+): void {
+  const items =
+    token.storage === "localStorage"
+      ? state.origins.find((origin) => origin.origin === token.origin)
+          ?.localStorage
+      : state.sessionStorage?.find((origin) => origin.origin === token.origin)
+          ?.sessionStorage;
+  const item = items?.find((candidate) => candidate.name === token.key);
+  if (!item) {
+    return;
+  }
+
+  const entry = JSON.parse(item.value);
+  update(entry);
+  item.value = JSON.stringify(entry);
+}
@@ -0,0 +1,94 @@
+import { test, expect } from "@playwright/test";
+import { base32Decode, generateTotp, parseTotpSecret } from "./totp";
+
+/** RFC 6238 appendix B seeds ("1234567890" repeated to the key length) */
+const SEEDS = {
+  sha1: "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ",
+  sha256: "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA====",
+  sha512:
+    "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA=",
+} as const;
+
+/** RFC 6238 appendix B test vectors: time in seconds and 8-digit codes */
+const VECTORS: [number, Record<keyof typeof SEEDS, string>][] = [
+  [59, { sha1: "94287082", sha256: "46119246", sha512: "90693936" }],
+  [1111111109, { sha1: "07081804", sha256: "68084774", sha512: "25091201" }],
+  [1111111111, { sha1: "14050471", sha256: "67062674", sha512: "99943326" }],
+  [1234567890, { sha1: "89005924", sha256: "91819424", sha512: "93441116" }],
+  [2000000000, { sha1: "69279037", sha256: "90698825", sha512: "38618901" }],
+  [20000000000, { sha1: "65353130", sha256: "77737706", sha512: "47863826" }],
+];
+
+test.describe("generateTotp", () => {
+  for (const algorithm of ["sha1", "sha256", "sha512"] as const) {
+    test(`matches the RFC 6238 ${algorithm} vectors`, () => {
+      for (const [seconds, codes] of VECTORS) {
+        expect(
+          generateTotp(
+            SEEDS[algorithm],
+            { digits: 8, algorithm },
+            seconds * 1000
+          )
+        ).toBe(codes[algorithm]);
+      }
+    });
+  }
+
+  test("defaults to 6 digits, 30 seconds and SHA-1", () => {
+    expect(generateTotp(SEEDS.sha1, {}, 59 * 1000)).toBe("287082");
+    // Same 30-second step
+    expect(generateTotp(SEEDS.sha1, {}, 31 * 1000)).toBe("287082");
+  });
+
+  test("uses the configured period", () => {
+    expect(
+      generateTotp(SEEDS.sha1, { digits: 8, period: 60 }, 118 * 1000)
+    ).toBe("94287082");
+  });
+});
+
+test.describe("base32Decode", () => {
+  test("ignores case, whitespace, dashes and padding", () => {
+    expect(base32Decode("gezd gnbv-gy3t qojq====").toString()).toBe(
+      "1234567890"
+    );
+  });
+
+  test("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("GEZD1")).toThrow(
+      "Invalid base32 character '1' in TOTP secret"
+    );
+  });
+});
+
+test.describe("parseTotpSecret", () => {
+  test("trims a raw base32 secret", () => {
+    expect(parseTotpSecret(`  ${SEEDS.sha1}\n`)).toEqual({
+      secret: SEEDS.sha1,
+      options: {},
+    });
+  });
+
+  test("reads the secret and options of an otpauth URI", () => {
+    expect(
+      parseTotpSecret(
+        `otpauth://totp/Contoso:user%40contoso.com?secret=${SEEDS.sha256}&issuer=Contoso&algorithm=SHA256&digits=8&period=60`
+      )
+    ).toEqual({
+      secret: SEEDS.sha256,
+      options: { algorithm: "sha256", digits: 8, period: 60 },
+    });
+  });
+
+  test("leaves options unset when the URI has none", () => {
+    expect(parseTotpSecret(`OTPAUTH://totp/user?secret=${SEEDS.sha1}`)).toEqual(
+      { secret: SEEDS.sha1, options: {} }
+    );
+  });
+
+  test("rejects an otpauth URI without a secret", () => {
+    expect(() => parseTotpSecret("otpauth://totp/user?digits=6")).toThrow(
+      "otpauth URI does not contain a 'secret' parameter"
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { createHmac } from "node:crypto";
+import type { MsAuthConfig, TotpOptions } from "./types";
+import { CredentialProviderFactory } from "./providers";
+import { log } from "./utils";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/** Default TOTP parameters used by Microsoft Authenticator */
+const DEFAULT_DIGITS = 6;
+const DEFAULT_PERIOD = 30;
+const DEFAULT_ALGORITHM = "sha1";
+
+/**
+ * Decode a base32 (RFC 4648) string, ignoring whitespace, dashes and padding
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/[\s=-]/g, "").toUpperCase();
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character '${char}' in TOTP secret`);
+    }
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Normalize a TOTP seed.
+ * Accepts a raw base32 secret or an otpauth:// URI (as encoded in enrollment QR codes).
+ */
+export function parseTotpSecret(seed: string): {
+  secret: string;
+  options: TotpOptions;
+} {
+  const trimmed = seed.trim();
+  if (!trimmed.toLowerCase().startsWith("otpauth://")) {
+    return { secret: trimmed, options: {} };
+  }
+
+  const uri = new URL(trimmed);
+  const secret = uri.searchParams.get("secret");
+  if (!secret) {
+    throw new Error("otpauth URI does not contain a 'secret' parameter");
+  }
+
+  const options: TotpOptions = {};
+  const digits = uri.searchParams.get("digits");
+  const period = uri.searchParams.get("period");
+  const algorithm = uri.searchParams.get("algorithm");
+  if (digits) options.digits = parseInt(digits);
+  if (period) options.period = parseInt(period);
+  if (algorithm) {
+    options.algorithm = algorithm.toLowerCase() as TotpOptions["algorithm"];
+  }
+
+  return { secret, options };
+}
+
+/**
+ * Generate an RFC 6238 time-based one-time password
+ * @param secret - Base32 encoded shared secret
+ * @param options - Digits, period and HMAC algorithm
+ * @param timestamp - Time in milliseconds to generate the code for (default: now)
+ */
+export function generateTotp(
+  secret: string,
+  options: TotpOptions = {},
+  timestamp: number = Date.now()
+): string {
+  const digits = options.digits ?? DEFAULT_DIGITS;
+  const period = options.period ?? DEFAULT_PERIOD;
+  const algorithm = options.algorithm ?? DEFAULT_ALGORITHM;
+
+  const counter = Math.floor(timestamp / 1000 / period);
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac(algorithm, base32Decode(secret))
+    .update(counterBuffer)
+    .digest();
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+/**
+ * Retrieve the TOTP seed configured for the user, if any
+ */
+export async function getTotpSecret(
+  config: MsAuthConfig
+): Promise<{ secret: string; options: TotpOptions } | undefined> {
+  if (!config.totp) {
+    return undefined;
+  }
+
+  const provider = CredentialProviderFactory.createProvider(
+    config.totp.credentialProvider,
+    config.totp.providerConfig,
+    { cloud: config.cloud }
+  );
+  log(`[MsAuth] Retrieving TOTP seed from ${provider.getProviderName()}`);
+
+  const credential = await provider.getCredential();
+  const seed = Buffer.isBuffer(credential.value)
+    ? credential.value.toString("utf-8")
+    : credential.value;
+
+  const parsed = parseTotpSecret(seed);
+  return {
+    secret: parsed.secret,
+    options: { ...parsed.options, ...config.totp.options },
+  };
+}
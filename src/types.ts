@@ -2,15 +2,101 @@
  * Authentication configuration types for playwright-ms-auth
  */
 
+import type {
+  BrowserContextOptions,
+  LaunchOptions,
+  Page,
+} from "@playwright/test";
+
 /** Supported credential types */
 export type CredentialType = "password" | "certificate";
 
+/** Microsoft cloud presets */
+export type CloudName = "public" | "usgov" | "usgov-dod" | "china";
+
+/** Endpoints of a Microsoft cloud */
+export interface CloudConfig {
+  /** Entra login endpoint hostname, e.g. "login.microsoftonline.us" */
+  loginEndpoint: string;
+
+  /** DNS suffix of Key Vault endpoints, e.g. "vault.usgovcloudapi.net" */
+  keyVaultDnsSuffix: string;
+
+  /** Authority host for `@azure/identity` credentials */
+  authorityHost: string;
+}
+
+/** Supported browser engines */
+export type BrowserName = "chromium" | "firefox" | "webkit";
+
+/** Options for verifying a saved session */
+export interface SessionProbeOptions {
+  /** URL to open with the saved state (default: the target URL) */
+  url?: string;
+
+  /**
+   * Custom readiness check; return true when the page shows a signed-in session
+   * (default: the page is not redirected to the login endpoint)
+   */
+  isReady?: (page: Page) => Promise<boolean>;
+
+  /** Navigation timeout in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/** Proxy server settings, as in Playwright's launch options */
+export type ProxySettings = NonNullable<LaunchOptions["proxy"]>;
+
+/** Settings for the certauth request relayed from Node.js in "route" mode */
+export interface CertAuthRelayConfig {
+  /**
+   * Proxy for the relayed request (default: `launchOptions.proxy`, else the
+   * HTTPS_PROXY and NO_PROXY environment variables); false connects directly
+   */
+  proxy?: ProxySettings | false;
+
+  /** Path to a PEM bundle of CA certificates trusted in addition to the defaults */
+  caFile?: string;
+
+  /** Timeout per request in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/** Options for connecting to a remote browser */
+export interface BrowserConnectOptions {
+  /** Browser server WebSocket endpoint, or CDP endpoint when protocol is "cdp" */
+  wsEndpoint: string;
+
+  /** Connection protocol: Playwright browser server or Chrome DevTools (default: playwright) */
+  protocol?: "playwright" | "cdp";
+
+  /** Additional HTTP headers sent with the connection request */
+  headers?: Record<string, string>;
+
+  /** Connection timeout in milliseconds */
+  timeout?: number;
+}
+
 /** Supported credential provider types */
 export type CredentialProviderType =
   | "azure-keyvault"
   | "local-file"
   | "environment"
-  | "github-secrets";
+  | "github-secrets"
+  | "hashicorp-vault"
+  | "exec"
+  | "chain";
+
+/** Every supported credential provider type */
+export const CREDENTIAL_PROVIDER_TYPES: CredentialProviderType[] = [
+  "azure-keyvault",
+  "local-file",
+  "environment",
+  "github-secrets",
+  "hashicorp-vault",
+  "exec",
+  "chain",
+];
 
 /** Base configuration for authentication */
 export interface AuthConfig {
@@ -26,15 +112,116 @@ export interface AuthConfig {
   /** Directory to store authentication state */
   outputDir?: string;
 
-  /** Hours until storage state expires (default: 24) */
+  /**
+   * Upper bound in hours on storage state age (default: 24)
+   *
+   * Within this bound, the state expires when its Entra session cookies and
+   * MSAL tokens do.
+   */
   storageStateExpiration?: number;
 
-  /** Entra login endpoint (default: login.microsoftonline.com) */
+  /**
+   * Minutes before the computed session expiry at which a storage state is
+   * treated as expired (default: 5)
+   */
+  expirySafetyMargin?: number;
+
+  /**
+   * Named application profile; keeps a separate storage state per user and app
+   * (e.g. "sharepoint", "powerapps")
+   */
+  app?: string;
+
+  /**
+   * How storage states are keyed when no `app` is set (default: "user")
+   * - "user": one state per user
+   * - "origin": one state per user and target URL host
+   */
+  stateScope?: "user" | "origin";
+
+  /**
+   * URLs visited after signing in, so one state holds the MSAL caches
+   * (localStorage) of several apps
+   */
+  warmupUrls?: string[];
+
+  /**
+   * Renew expired storage states with their MSAL refresh tokens instead of
+   * signing in with the browser (default: true)
+   *
+   * The browser sign-in is used when no refresh token is cached or the
+   * refresh fails.
+   */
+  tokenRefresh?: boolean;
+
+  /**
+   * Verify a saved storage state against the live service before reusing it
+   *
+   * Catches sessions killed by password resets, revoked sessions or policy
+   * changes. A rejected state is deleted and re-authenticated.
+   */
+  verifySession?: boolean | SessionProbeOptions;
+
+  /**
+   * Microsoft cloud: "public" (default), "usgov" (GCC High), "usgov-dod",
+   * "china" (21Vianet) or custom endpoints
+   *
+   * Sets the login endpoint (and with it the certauth host), the expected
+   * Key Vault DNS suffix and the `@azure/identity` authority host.
+   */
+  cloud?: CloudName | CloudConfig;
+
+  /** Entra login endpoint; overrides the cloud's (default: login.microsoftonline.com) */
   loginEndpoint?: string;
 
+  /**
+   * How the certificate is presented during certificate-based authentication
+   * (default: "auto")
+   * - "client-certificates": configured as `clientCertificates` on the browser
+   *   context, which also covers popups and new pages (Playwright 1.46+)
+   * - "route": the certauth request is intercepted and replayed from Node.js
+   * - "auto": "client-certificates" when the installed Playwright supports it
+   */
+  certificateMode?: CertificateAuthMode;
+
+  /** Proxy, CA bundle and timeout of the relayed certauth request ("route" mode) */
+  certAuthRelay?: CertAuthRelayConfig;
+
+  /**
+   * Warn when the user certificate expires within this many days
+   * (default: 14)
+   */
+  certificateExpiryWarningDays?: number;
+
   /** Run browser in headless mode (default: true) */
   headless?: boolean;
 
+  /** Browser engine used for authentication (default: chromium) */
+  browser?: BrowserName;
+
+  /**
+   * Browser channel, e.g. msedge or chrome (default: msedge for chromium)
+   *
+   * Set to "bundled" to use the browser bundled with Playwright.
+   */
+  browserChannel?: string;
+
+  /** Additional launch options, e.g. proxy, executablePath, slowMo or args */
+  launchOptions?: LaunchOptions;
+
+  /**
+   * Connect to an existing browser instead of launching one, e.g. a remote
+   * grid or a browser started by Playwright's globalSetup
+   */
+  connect?: BrowserConnectOptions;
+
+  /**
+   * Options for the browser context used to sign in, e.g. locale, timezoneId,
+   * userAgent or viewport. Use the same options as your tests so the saved
+   * storage state matches their context.
+   */
+  contextOptions?: BrowserContextOptions;
+
   /**
    * Wait for MSAL tokens in localStorage before saving state (default: true)
    *
@@ -52,6 +239,155 @@ export interface AuthConfig {
    * Only applies when waitForMsalTokens is true.
    */
   msalTokenTimeout?: number;
+
+  /**
+   * Wait for an MSAL access token covering these scopes instead of any
+   * MSAL-looking key, e.g. ["https://graph.microsoft.com/User.Read"]
+   *
+   * Only applies when waitForMsalTokens is true.
+   */
+  msalTokenScopes?: string[];
+
+  /**
+   * Authenticator app (TOTP) configuration for accounts that require MFA
+   *
+   * When set, the login flow answers "Verify your identity" / "Enter code"
+   * prompts with a code generated from the configured seed.
+   */
+  totp?: TotpConfig;
+
+  /**
+   * Encrypt saved storage states at rest (AES-256-GCM)
+   *
+   * Encrypted states are decrypted in memory by `loadStorageStateObject`
+   * and the test fixtures.
+   */
+  encryption?: StorageStateEncryptionConfig;
+
+  /**
+   * Additional login page handlers
+   *
+   * Custom handlers are checked before the built-in ones. A custom handler
+   * with the same `kind` as a built-in handler replaces it.
+   */
+  pageHandlers?: LoginPageHandler[];
+
+  /** Maximum number of login pages handled before giving up (default: 25) */
+  maxLoginSteps?: number;
+
+  /**
+   * Maximum time in milliseconds to wait while another process authenticates
+   * the same user (default: 300000)
+   */
+  lockTimeout?: number;
+
+  /**
+   * Time in milliseconds without a heartbeat from the holder after which a
+   * lock left by a crashed process is taken over (default: 600000)
+   */
+  staleLockTimeout?: number;
+}
+
+/** How the certificate is presented to the certauth endpoint */
+export type CertificateAuthMode = "auto" | "client-certificates" | "route";
+
+/** Login pages recognized by the built-in login flow */
+export type LoginPageKind =
+  | "email"
+  | "password"
+  | "account-picker"
+  | "kmsi"
+  | "mfa"
+  | "consent"
+  | "error"
+  | "federation-redirect"
+  | "done";
+
+/** State shared between login page handlers */
+export interface LoginFlowContext {
+  /** Configuration of the user being signed in */
+  config: MsAuthConfig;
+
+  /** URL the flow was started for */
+  targetUrl: string;
+
+  /** Retrieved credential */
+  credential: CredentialResult;
+
+  /** Entra login endpoint hostname from the configuration */
+  loginEndpoint: string;
+
+  /**
+   * True when the certificate is configured as a client certificate on the
+   * browser context, so the certauth request is not intercepted
+   */
+  clientCertificates?: boolean;
+
+  /** Hostname of the login page actually reached (used for certauth routing) */
+  authEndpoint: string;
+
+  /** TOTP seed for MFA prompts, if configured */
+  totp?: { secret: string; options: TotpOptions };
+
+  /** Kinds of the pages handled so far, in order */
+  history: string[];
+}
+
+/** Result of handling a login page: "done" ends the flow */
+export type LoginStepResult = "continue" | "done";
+
+/** Handler for one kind of login page */
+export interface LoginPageHandler {
+  /** Page kind handled - a built-in kind or a custom name */
+  kind: LoginPageKind | (string & {});
+
+  /** Return true when the current page should be handled by this handler */
+  detect(page: Page, context: LoginFlowContext): Promise<boolean>;
+
+  /** Act on the page; return "done" once the user is signed in */
+  handle(
+    page: Page,
+    context: LoginFlowContext
+  ): Promise<LoginStepResult | void>;
+}
+
+/** Options for RFC 6238 TOTP code generation */
+export interface TotpOptions {
+  /** Number of digits in the code (default: 6) */
+  digits?: number;
+
+  /** Time step in seconds (default: 30) */
+  period?: number;
+
+  /** HMAC algorithm (default: sha1) */
+  algorithm?: "sha1" | "sha256" | "sha512";
+}
+
+/** Configuration for the TOTP seed used to answer MFA prompts */
+export interface TotpConfig {
+  /** Provider holding the base32 seed or otpauth:// URI */
+  credentialProvider: CredentialProviderType;
+
+  /** Provider-specific configuration for the seed */
+  providerConfig: ProviderConfig;
+
+  /** Code generation options (overrides values from an otpauth:// URI) */
+  options?: TotpOptions;
+
+  /**
+   * Number of adjacent time steps to try when a code is rejected,
+   * to compensate for clock skew (default: 1)
+   */
+  maxSkewSteps?: number;
+}
+
+/** Configuration for the key used to encrypt storage states */
+export interface StorageStateEncryptionConfig {
+  /** Provider holding the encryption key (any string; stretched with scrypt) */
+  credentialProvider: CredentialProviderType;
+
+  /** Provider-specific configuration for the key */
+  providerConfig: ProviderConfig;
 }
 
 /** Configuration for Azure KeyVault credential provider */
@@ -64,15 +400,29 @@ export interface AzureKeyVaultConfig {
 
   /** Optional secret version */
   secretVersion?: string;
+
+  /**
+   * Authority host for interactive sign-in to Key Vault
+   * (default: the user's `cloud`, else derived from the Key Vault DNS suffix)
+   * Azure CLI, PowerShell and azd credentials ignore it and use the cloud
+   * their tool is signed in to.
+   */
+  authorityHost?: string;
 }
 
 /** Configuration for local file credential provider */
 export interface LocalFileConfig {
-  /** Path to the credential file (password or certificate) */
+  /** Path to the credential file (password, PFX or PEM certificate) */
   filePath: string;
 
   /** Password for encrypted certificate (optional) */
   certificatePassword?: string;
+
+  /**
+   * Path to the PEM private key of a `.pem`/`.crt` certificate
+   * (default: the certificate path with a `.key` extension)
+   */
+  keyFilePath?: string;
 }
 
 /** Configuration for environment variable credential provider */
@@ -82,6 +432,9 @@ export interface EnvironmentConfig {
 
   /** For certificates: optional password variable */
   passwordVariableName?: string;
+
+  /** For PEM certificates: variable holding the private key, if not in `variableName` */
+  keyVariableName?: string;
 }
 
 /** Configuration for GitHub Secrets credential provider */
@@ -94,6 +447,157 @@ export interface GitHubSecretsConfig {
 
   /** GitHub token for authentication */
   token?: string;
+
+  /** For certificates: optional secret holding the certificate password */
+  passwordSecretName?: string;
+}
+
+/** Authentication with HashiCorp Vault */
+export type HashiCorpVaultAuth =
+  | {
+      method: "token";
+      /** Vault token (default: VAULT_TOKEN environment variable) */
+      token?: string;
+    }
+  | {
+      method: "approle";
+      roleId: string;
+      secretId?: string;
+      /** Mount path of the AppRole auth method (default: "approle") */
+      mountPath?: string;
+    }
+  | {
+      method: "jwt";
+      /** Vault role to log in as */
+      role: string;
+      /**
+       * JWT to log in with (default: read from `jwtFile`, or requested from
+       * the GitHub Actions OIDC provider)
+       */
+      jwt?: string;
+      /** File holding the JWT, e.g. a Kubernetes service account token */
+      jwtFile?: string;
+      /** Audience of the GitHub Actions OIDC token */
+      audience?: string;
+      /** Mount path of the JWT auth method (default: "jwt") */
+      mountPath?: string;
+    };
+
+/** Configuration for HashiCorp Vault credential provider */
+export interface HashiCorpVaultConfig {
+  /** Vault address, e.g. "https://vault.example.com:8200" */
+  address: string;
+
+  /** Path of the secret within the KV mount, e.g. "playwright/admin" */
+  secretPath: string;
+
+  /** Mount path of the KV secrets engine (default: "secret") */
+  mountPath?: string;
+
+  /** KV secrets engine version (default: 2) */
+  kvVersion?: 1 | 2;
+
+  /**
+   * Field of the secret holding the password, certificate (base64 PFX or
+   * PEM) or TOTP seed (default: "value")
+   */
+  field?: string;
+
+  /** Field holding the certificate password, if any */
+  passwordField?: string;
+
+  /** Secret version to read (KV v2 only, default: latest) */
+  version?: number;
+
+  /** Vault Enterprise namespace */
+  namespace?: string;
+
+  /** Authentication (default: token from VAULT_TOKEN) */
+  auth?: HashiCorpVaultAuth;
+
+  /** Path to a PEM bundle of CA certificates for the Vault server */
+  caCertPath?: string;
+
+  /**
+   * HTTP proxy for Vault and GitHub OIDC requests (default: the HTTPS_PROXY
+   * and NO_PROXY environment variables); false connects directly
+   */
+  proxy?: ProxySettings | false;
+
+  /** Request timeout in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * JSON printed by an external command with `outputFormat: "json"`
+ * Exactly one of `password`, `pfx` or `cert` must be set.
+ */
+export interface ExecJsonOutput {
+  /** Password or other secret string, e.g. a TOTP seed */
+  password?: string;
+
+  /** Base64-encoded PFX certificate */
+  pfx?: string;
+
+  /** PEM certificate, optionally followed by its chain and private key */
+  cert?: string;
+
+  /** PEM private key kept apart from `cert` */
+  key?: string;
+
+  /** Passphrase of the PFX or PEM private key */
+  passphrase?: string;
+}
+
+/** Configuration for external command credential provider */
+export interface ExecConfig {
+  /** Executable to run, e.g. "op", "pass" or "sops" (never run in a shell) */
+  command: string;
+
+  /** Arguments passed to the command as-is */
+  args?: string[];
+
+  /**
+   * How stdout is read: the trimmed password, a base64-encoded PFX, or an
+   * `ExecJsonOutput` object (default: "password")
+   */
+  outputFormat?: "password" | "pfx" | "json";
+
+  /** Password of a PFX printed with `outputFormat: "pfx"` */
+  certificatePassword?: string;
+
+  /**
+   * Environment variables passed on to the command in addition to PATH,
+   * HOME and the platform's system variables; all others are withheld
+   */
+  env?: string[];
+
+  /** Working directory of the command */
+  cwd?: string;
+
+  /** Time limit in milliseconds before the command is killed (default: 30000) */
+  timeout?: number;
+}
+
+/** Link of a chained fallback credential provider */
+export interface ChainLinkConfig {
+  /** Name shown in logs and errors (default: the provider type) */
+  name?: string;
+
+  /** Provider type of this link */
+  credentialProvider: CredentialProviderType;
+
+  /**
+   * Provider-specific configuration (default: loaded from the provider's
+   * environment variables when the link is tried)
+   */
+  providerConfig?: ProviderConfig;
+}
+
+/** Configuration for chained fallback credential provider */
+export interface ChainConfig {
+  /** Providers tried in order; the first to return a credential wins */
+  providers: ChainLinkConfig[];
 }
 
 /** Union type for all provider configurations */
@@ -101,7 +605,10 @@ export type ProviderConfig =
   | AzureKeyVaultConfig
   | LocalFileConfig
   | EnvironmentConfig
-  | GitHubSecretsConfig;
+  | GitHubSecretsConfig
+  | HashiCorpVaultConfig
+  | ExecConfig
+  | ChainConfig;
 
 /** Complete authentication configuration */
 export interface MsAuthConfig extends AuthConfig {
@@ -109,6 +616,54 @@ export interface MsAuthConfig extends AuthConfig {
   providerConfig: ProviderConfig;
 }
 
+/** Named user for test fixtures and setup projects */
+export interface MsAuthUser extends MsAuthConfig {
+  /** URL to authenticate against */
+  targetUrl: string;
+
+  /** All URLs to authenticate against (targetUrl is the first one) */
+  targetUrls?: string[];
+}
+
+/** One user of a multi-user configuration */
+export interface MsAuthUserConfig extends Partial<MsAuthConfig> {
+  /** User email/username */
+  email: string;
+
+  /** URLs to authenticate against */
+  targetUrls: string[];
+}
+
+/** Multi-user configuration, e.g. loaded from a users file */
+export interface MsAuthUsersConfig {
+  /** Settings shared by all users, e.g. loginEndpoint, outputDir or browser */
+  defaults?: Partial<MsAuthConfig>;
+
+  /** Maximum number of users authenticated in parallel (default: 4) */
+  concurrency?: number;
+
+  /** Users by name, e.g. admin, maker, guest */
+  users: Record<string, MsAuthUserConfig>;
+}
+
+/** Outcome of authenticating one user of a multi-user run */
+export interface UserAuthResult {
+  /** User name from the configuration */
+  name: string;
+
+  /** User email */
+  email: string;
+
+  /** True when every target URL was authenticated */
+  success: boolean;
+
+  /** Failure cause when success is false */
+  error?: Error;
+
+  /** Time spent on the user in milliseconds */
+  durationMs: number;
+}
+
 /** CLI environment variable names */
 export const EnvVars = {
   /** User email */
@@ -132,6 +687,12 @@ export const EnvVars = {
   /** Certificate password */
   CERTIFICATE_PASSWORD: "MS_AUTH_CERTIFICATE_PASSWORD",
 
+  /** Path to the PEM private key of a local certificate file */
+  LOCAL_KEY_FILE_PATH: "MS_AUTH_LOCAL_KEY_FILE_PATH",
+
+  /** Environment variable name for the PEM private key */
+  ENV_KEY_VARIABLE_NAME: "MS_AUTH_ENV_KEY_VARIABLE_NAME",
+
   /** Environment variable name for credential */
   ENV_VARIABLE_NAME: "MS_AUTH_ENV_VARIABLE_NAME",
 
@@ -141,9 +702,69 @@ export const EnvVars = {
   /** Entra login endpoint */
   LOGIN_ENDPOINT: "MS_AUTH_LOGIN_ENDPOINT",
 
+  /** Microsoft cloud (public|usgov|usgov-dod|china) */
+  CLOUD: "MS_AUTH_CLOUD",
+
+  /** Browser engine (chromium|firefox|webkit) */
+  BROWSER: "MS_AUTH_BROWSER",
+
+  /** Browser channel (msedge|chrome|bundled|...) */
+  BROWSER_CHANNEL: "MS_AUTH_BROWSER_CHANNEL",
+
+  /** Playwright launch options as JSON */
+  LAUNCH_OPTIONS: "MS_AUTH_LAUNCH_OPTIONS",
+
+  /** Playwright browser context options as JSON */
+  CONTEXT_OPTIONS: "MS_AUTH_CONTEXT_OPTIONS",
+
+  /** Remote browser endpoint to connect to instead of launching */
+  CONNECT_WS_ENDPOINT: "MS_AUTH_CONNECT_WS_ENDPOINT",
+
+  /** Remote browser protocol (playwright|cdp) */
+  CONNECT_PROTOCOL: "MS_AUTH_CONNECT_PROTOCOL",
+
+  /** Path to the multi-user configuration file */
+  USERS_FILE: "MS_AUTH_USERS_FILE",
+
+  /** Maximum time to wait for another process's login in milliseconds */
+  LOCK_TIMEOUT: "MS_AUTH_LOCK_TIMEOUT",
+
   /** Storage state expiration hours */
   STORAGE_STATE_EXPIRATION: "MS_AUTH_STORAGE_STATE_EXPIRATION",
 
+  /** Safety margin in minutes before the computed session expiry */
+  EXPIRY_SAFETY_MARGIN: "MS_AUTH_EXPIRY_SAFETY_MARGIN",
+
+  /** Renew expired states with cached refresh tokens (true|false, default: true) */
+  TOKEN_REFRESH: "MS_AUTH_TOKEN_REFRESH",
+
+  /** Verify saved sessions against the target URL before reuse (true|false) */
+  VERIFY_SESSION: "MS_AUTH_VERIFY_SESSION",
+
+  /** Application profile the storage state is scoped to */
+  APP: "MS_AUTH_APP",
+
+  /** Storage state scope when no app is set (user|origin) */
+  STATE_SCOPE: "MS_AUTH_STATE_SCOPE",
+
+  /** Comma-separated URLs visited after signing in to capture their localStorage */
+  WARMUP_URLS: "MS_AUTH_WARMUP_URLS",
+
+  /** Certificate authentication mode (auto|client-certificates|route) */
+  CERTIFICATE_MODE: "MS_AUTH_CERTIFICATE_MODE",
+
+  /** Proxy for the relayed certauth request: URL, or "direct" to ignore HTTPS_PROXY */
+  CERTAUTH_PROXY: "MS_AUTH_CERTAUTH_PROXY",
+
+  /** PEM bundle of additional CA certificates for the relayed certauth request */
+  CA_FILE: "MS_AUTH_CA_FILE",
+
+  /** Timeout of the relayed certauth request in milliseconds (default: 30000) */
+  CERTAUTH_TIMEOUT: "MS_AUTH_CERTAUTH_TIMEOUT",
+
+  /** Days before certificate expiry at which a warning is logged (default: 14) */
+  CERTIFICATE_EXPIRY_WARNING_DAYS: "MS_AUTH_CERTIFICATE_EXPIRY_WARNING_DAYS",
+
   /** GitHub repository */
   GITHUB_REPOSITORY: "MS_AUTH_GITHUB_REPOSITORY",
 
@@ -153,6 +774,69 @@ export const EnvVars = {
   /** GitHub token */
   GITHUB_TOKEN: "MS_AUTH_GITHUB_TOKEN",
 
+  /** HashiCorp Vault address (default: VAULT_ADDR) */
+  VAULT_ADDR: "MS_AUTH_VAULT_ADDR",
+
+  /** HashiCorp Vault secret path within the KV mount */
+  VAULT_SECRET_PATH: "MS_AUTH_VAULT_SECRET_PATH",
+
+  /** HashiCorp Vault KV mount path (default: secret) */
+  VAULT_MOUNT: "MS_AUTH_VAULT_MOUNT",
+
+  /** HashiCorp Vault KV version (1|2, default: 2) */
+  VAULT_KV_VERSION: "MS_AUTH_VAULT_KV_VERSION",
+
+  /** HashiCorp Vault secret field (default: value) */
+  VAULT_FIELD: "MS_AUTH_VAULT_FIELD",
+
+  /** HashiCorp Vault secret field holding the certificate password */
+  VAULT_PASSWORD_FIELD: "MS_AUTH_VAULT_PASSWORD_FIELD",
+
+  /** HashiCorp Vault namespace (default: VAULT_NAMESPACE) */
+  VAULT_NAMESPACE: "MS_AUTH_VAULT_NAMESPACE",
+
+  /** HashiCorp Vault auth method (token|approle|jwt, default: token) */
+  VAULT_AUTH_METHOD: "MS_AUTH_VAULT_AUTH_METHOD",
+
+  /** HashiCorp Vault auth method mount path */
+  VAULT_AUTH_MOUNT: "MS_AUTH_VAULT_AUTH_MOUNT",
+
+  /** HashiCorp Vault token (default: VAULT_TOKEN) */
+  VAULT_TOKEN: "MS_AUTH_VAULT_TOKEN",
+
+  /** HashiCorp Vault AppRole role ID */
+  VAULT_ROLE_ID: "MS_AUTH_VAULT_ROLE_ID",
+
+  /** HashiCorp Vault AppRole secret ID */
+  VAULT_SECRET_ID: "MS_AUTH_VAULT_SECRET_ID",
+
+  /** HashiCorp Vault JWT auth role */
+  VAULT_JWT_ROLE: "MS_AUTH_VAULT_JWT_ROLE",
+
+  /** JWT for HashiCorp Vault JWT auth (default: GitHub Actions OIDC token) */
+  VAULT_JWT: "MS_AUTH_VAULT_JWT",
+
+  /** PEM CA bundle for the HashiCorp Vault server (default: VAULT_CACERT) */
+  VAULT_CACERT: "MS_AUTH_VAULT_CACERT",
+
+  /** External command to run for the exec provider */
+  EXEC_COMMAND: "MS_AUTH_EXEC_COMMAND",
+
+  /** Arguments of the external command as a JSON array */
+  EXEC_ARGS: "MS_AUTH_EXEC_ARGS",
+
+  /** Output format of the external command (password|pfx|json) */
+  EXEC_OUTPUT_FORMAT: "MS_AUTH_EXEC_OUTPUT_FORMAT",
+
+  /** Comma-separated environment variables passed on to the command */
+  EXEC_ENV: "MS_AUTH_EXEC_ENV",
+
+  /** Time limit of the external command in milliseconds */
+  EXEC_TIMEOUT: "MS_AUTH_EXEC_TIMEOUT",
+
+  /** Comma-separated provider types tried in order by the chain provider */
+  CHAIN_PROVIDERS: "MS_AUTH_CHAIN_PROVIDERS",
+
   /** Debug logging */
   SYSTEM_DEBUG: "SYSTEM_DEBUG",
 
@@ -161,6 +845,21 @@ export const EnvVars = {
 
   /** Maximum time to wait for MSAL tokens in milliseconds (default: 30000) */
   MSAL_TOKEN_TIMEOUT: "MS_AUTH_MSAL_TOKEN_TIMEOUT",
+
+  /** Comma-separated scopes an MSAL access token must cover before the state is saved */
+  MSAL_TOKEN_SCOPES: "MS_AUTH_MSAL_TOKEN_SCOPES",
+
+  /** Credential provider holding the TOTP seed (default: environment) */
+  TOTP_PROVIDER: "MS_AUTH_TOTP_PROVIDER",
+
+  /** TOTP seed location: variable name, file path or secret name depending on provider */
+  TOTP_SECRET: "MS_AUTH_TOTP_SECRET",
+
+  /** Credential provider holding the storage state encryption key (default: environment) */
+  ENCRYPTION_KEY_PROVIDER: "MS_AUTH_ENCRYPTION_KEY_PROVIDER",
+
+  /** Encryption key location: variable name, file path or secret name depending on provider */
+  ENCRYPTION_KEY: "MS_AUTH_ENCRYPTION_KEY",
 } as const;
 
 /** Result of credential retrieval */
@@ -168,8 +867,50 @@ export interface CredentialResult {
   /** Type of credential retrieved */
   type: CredentialType;
 
-  /** The credential value (password string or certificate buffer) */
+  /**
+   * The credential value (password string or certificate buffer; the PEM
+   * certificate for PEM credentials)
+   */
   value: string | Buffer;
+
+  /** Certificate material with its passphrase (certificate credentials only) */
+  certificate?: CertificateCredential;
+
+  /** Name of the chain link that supplied the credential (chain provider only) */
+  source?: string;
+}
+
+/** Certificate material of a certificate credential */
+export type CertificateCredential =
+  | PfxCertificateCredential
+  | PemCertificateCredential;
+
+/** PKCS#12 (PFX) certificate with its private key */
+export interface PfxCertificateCredential {
+  format: "pfx";
+
+  /** DER-encoded PKCS#12 archive */
+  pfx: Buffer;
+
+  /** Passphrase of the archive */
+  passphrase?: string;
+}
+
+/** PEM certificate and private key */
+export interface PemCertificateCredential {
+  format: "pem";
+
+  /** PEM leaf certificate */
+  cert: string;
+
+  /** PEM private key */
+  key: string;
+
+  /** PEM intermediate certificates sent along with the leaf */
+  chain?: string;
+
+  /** Passphrase of an encrypted private key */
+  passphrase?: string;
 }
 
 /** User information for authentication */
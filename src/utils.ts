@@ -1,8 +1,11 @@
 import { resolve, join, dirname, parse } from "node:path";
 import { homedir } from "node:os";
-import { mkdir } from "node:fs/promises";
-import { existsSync } from "node:fs";
+import { mkdir, stat } from "node:fs/promises";
+import { existsSync, readFileSync } from "node:fs";
 import { EnvVars } from "./types";
+import type { MsAuthConfig } from "./types";
+import { getStorageStateExpiry, readStorageStateFile } from "./storageState";
+import type { StorageState } from "./storageState";
 
 /**
  * Find the project root by looking for package.json file
@@ -30,6 +33,21 @@ export function getProjectRoot(): string {
   return findProjectRoot(process.cwd());
 }
 
+/**
+ * Get the installed version of playwright-ms-auth
+ */
+export function getPackageVersion(): string {
+  try {
+    const packageJson = readFileSync(
+      join(__dirname, "..", "package.json"),
+      "utf-8"
+    );
+    return JSON.parse(packageJson).version;
+  } catch {
+    return "unknown";
+  }
+}
+
 /**
  * Logging function that checks SYSTEM_DEBUG at runtime
  */
@@ -66,11 +84,48 @@ export async function ensureDirExists(dir: string): Promise<void> {
 
 /**
  * Get the storage state path for a user
+ * @param app - Application the state is scoped to (default: one state per user)
  */
-export function getStorageStatePath(email: string): string {
+export function getStorageStatePath(email: string, app?: string): string {
   const authDir = getAuthBaseDir();
-  const sanitizedEmail = email.replace(/[^a-zA-Z0-9@.-]/g, "_");
-  return join(authDir, `state-${sanitizedEmail}.json`);
+  const suffix = app ? `+${sanitizeEmail(app)}` : "";
+  return join(authDir, `state-${sanitizeEmail(email)}${suffix}.json`);
+}
+
+/**
+ * Get the application a user's storage state is scoped to, if any
+ * A named `app` profile wins; otherwise `stateScope: "origin"` scopes the
+ * state to the target URL's host.
+ */
+export function getStorageStateApp(
+  config: MsAuthConfig,
+  targetUrl?: string
+): string | undefined {
+  if (config.app) {
+    return config.app;
+  }
+  if (config.stateScope !== "origin") {
+    return undefined;
+  }
+  if (!targetUrl) {
+    throw new Error(
+      `A target URL is required to find the origin-scoped storage state for '${config.email}'`
+    );
+  }
+  return new URL(targetUrl).host;
+}
+
+/**
+ * Get the storage state path for a configuration and target URL
+ */
+export function resolveStorageStatePath(
+  config: MsAuthConfig,
+  targetUrl?: string
+): string {
+  return getStorageStatePath(
+    config.email,
+    getStorageStateApp(config, targetUrl)
+  );
 }
 
 /**
@@ -81,7 +136,7 @@ export function getAuthScreenshotPath(
   status: "success" | "failed"
 ): string {
   const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const sanitizedEmail = email.replace(/[^a-zA-Z0-9@.-]/g, "_");
+  const sanitizedEmail = sanitizeEmail(email);
   const screenshotDir = join(getAuthBaseDir(), "screenshots");
 
   return join(
@@ -92,6 +147,8 @@ export function getAuthScreenshotPath(
 
 /**
  * Sanitize email for use in filenames
+ * The result never contains `+`, which separates the email from the app in
+ * storage state file names.
  */
 export function sanitizeEmail(email: string): string {
   return email.replace(/[^a-zA-Z0-9@.-]/g, "_");
@@ -99,17 +156,52 @@ export function sanitizeEmail(email: string): string {
 
 /**
  * Check if storage state file exists and is not expired
+ *
+ * The real session expiry is derived from the Entra cookies and MSAL tokens in
+ * the file; `expirationHours` (measured from the file's mtime) is an upper bound.
  */
 export async function isStorageStateValid(
   filePath: string,
-  expirationHours: number = 24
+  expirationHours: number = 24,
+  options: {
+    /** Minutes before the computed expiry at which the state counts as expired (default: 5) */
+    safetyMarginMinutes?: number;
+    /** Key for encrypted storage states */
+    encryptionKey?: string;
+  } = {}
 ): Promise<boolean> {
   try {
-    const { stat } = await import("node:fs/promises");
     const stats = await stat(filePath);
     const ageMs = Date.now() - stats.mtimeMs;
     const expirationMs = expirationHours * 60 * 60 * 1000;
-    return ageMs < expirationMs;
+    if (ageMs >= expirationMs) {
+      return false;
+    }
+
+    let state: StorageState;
+    try {
+      state = await readStorageStateFile(filePath, options.encryptionKey);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(
+        `[MsAuth] ##[warning]Storage state '${filePath}' is unreadable: ${message}`
+      );
+      return false;
+    }
+
+    const { expiresAt } = getStorageStateExpiry(state);
+    if (!expiresAt) {
+      // No token or cookie expiry recorded - rely on the file age alone
+      return true;
+    }
+
+    const marginMs = (options.safetyMarginMinutes ?? 5) * 60 * 1000;
+    const isValid = expiresAt.getTime() - marginMs > Date.now();
+    log(
+      `[MsAuth] Storage state '${filePath}' session expires at ${expiresAt.toISOString()}` +
+        `${isValid ? "" : " (expired)"}`
+    );
+    return isValid;
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
       return false;